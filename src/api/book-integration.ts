@@ -0,0 +1,102 @@
+import { KakaoAPI } from './kakao-api';
+import { Book } from './types';
+import { KakaoBookDocument } from '../types/kakao-types';
+import { normalizeISBN } from '../utils/isbn';
+
+/**
+ * 국립중앙도서관 검색 결과에 카카오 도서 정보를 덧붙이는 서비스
+ */
+export class BookIntegrationService {
+  constructor(private kakaoAPI: KakaoAPI) {}
+
+  /**
+   * 도서 한 권을 카카오 정보로 보강 (찾지 못하면 원본 그대로 반환)
+   */
+  async enrichBook(book: Book): Promise<Book> {
+    if (book.hasKakaoData) {
+      return book;
+    }
+
+    try {
+      const kakaoBook = await this.kakaoAPI.findBookWithFallback(
+        book.title,
+        this.primaryAuthor(book.author),
+        book.isbn || undefined
+      );
+
+      if (!kakaoBook) {
+        return book;
+      }
+
+      return this.mergeKakaoData(book, kakaoBook);
+    } catch (error) {
+      console.error(`❌ [Integration] Kakao enrichment failed for "${book.title}":`, error);
+      return book;
+    }
+  }
+
+  /**
+   * 여러 권을 동시 요청 수를 제한하며 보강 (순서 유지)
+   */
+  async enrichBooks(books: Book[], concurrency = 3): Promise<Book[]> {
+    const results: Book[] = [...books];
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < books.length) {
+        const index = nextIndex++;
+        results[index] = await this.enrichBook(books[index]);
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(concurrency, books.length) }, () => worker());
+    await Promise.all(workers);
+
+    console.log(`✅ [Integration] Enriched ${results.filter(book => book.hasKakaoData).length}/${books.length} books`);
+    return results;
+  }
+
+  /**
+   * 카카오 정보 병합 - 국립중앙도서관 값을 우선하고 빈 필드만 채움
+   */
+  mergeKakaoData(book: Book, kakaoBook: KakaoBookDocument): Book {
+    const info = this.kakaoAPI.convertToIntegratedBookInfo(kakaoBook);
+
+    return {
+      ...book,
+      isbn: book.isbn || this.pickISBN13(kakaoBook.isbn),
+      publisher: book.publisher || info.publisher,
+      publishDate: book.publishDate || info.publishDate,
+      coverImage: book.coverImage || info.kakaoThumbnail,
+      summary: book.summary || info.kakaoContents,
+      price: book.price || (info.kakaoPrice ? String(info.kakaoPrice) : undefined),
+      translators: book.translators?.length ? book.translators : kakaoBook.translators.filter(Boolean),
+      kakaoUrl: info.kakaoUrl,
+      kakaoThumbnail: info.kakaoThumbnail,
+      kakaoContents: info.kakaoContents,
+      kakaoPrice: info.kakaoPrice,
+      kakaoSalePrice: info.kakaoSalePrice,
+      source: 'integrated',
+      hasKakaoData: true
+    };
+  }
+
+  /**
+   * "지은이 ; 옮긴이" 형태의 저자 문자열에서 첫 번째 저자 이름만 추출
+   */
+  private primaryAuthor(author: string): string | undefined {
+    if (!author) return undefined;
+    const first = author.split(/[;,]/)[0]
+      .replace(/\s*(지음|저|글|엮음|편|편저|공저|외)\s*$/, '')
+      .trim();
+    return first || undefined;
+  }
+
+  /**
+   * 카카오 ISBN 필드("ISBN10 ISBN13")에서 13자리 ISBN 선택
+   */
+  private pickISBN13(isbnField: string): string {
+    const candidates = (isbnField || '').split(/\s+/).map(normalizeISBN).filter(Boolean);
+    return candidates.find(isbn => isbn.length === 13) || candidates[0] || '';
+  }
+}
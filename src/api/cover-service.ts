@@ -0,0 +1,133 @@
+import { App, normalizePath, requestUrl } from 'obsidian';
+import { Book } from './types';
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+/**
+ * 표지 이미지 저장 서비스 - 원격 표지를 볼트 첨부 폴더에 내려받고, 표지가 없으면 대체 이미지 생성
+ */
+export class CoverImageService {
+  constructor(private app: App) {}
+
+  /**
+   * 표지를 내려받아 볼트 경로 반환 (같은 ISBN의 파일이 이미 있으면 재사용, 모두 실패하면 null)
+   */
+  async downloadCover(book: Book, folderPath: string): Promise<string | null> {
+    const baseName = this.coverBaseName(book);
+    const existing = this.findExistingCover(folderPath, baseName);
+    if (existing) {
+      console.log(`🖼️ [Cover] Reusing ${existing}`);
+      return existing;
+    }
+
+    const urls = [book.coverImage, book.kakaoThumbnail].filter((url, index, list): url is string =>
+      !!url && /^https?:\/\//.test(url) && list.indexOf(url) === index);
+
+    for (const url of urls) {
+      try {
+        const response = await requestUrl({ url, method: 'GET' });
+        const contentType = (response.headers['content-type'] || response.headers['Content-Type'] || '').split(';')[0].trim();
+        const extension = CONTENT_TYPE_EXTENSIONS[contentType] || this.extensionFromURL(url);
+
+        // 이미지가 아닌 응답(오류 페이지 등)이나 빈 이미지는 건너뜀
+        if (response.status !== 200 || !extension || response.arrayBuffer.byteLength < 100) {
+          console.warn(`⚠️ [Cover] Not an image: ${url} (${response.status}, ${contentType})`);
+          continue;
+        }
+
+        const path = await this.writeBinary(folderPath, `${baseName}.${extension}`, response.arrayBuffer);
+        console.log(`🖼️ [Cover] Saved ${path}`);
+        return path;
+      } catch (error) {
+        console.warn(`⚠️ [Cover] Download failed: ${url}`, error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 표지가 없는 도서용 대체 이미지(SVG) 생성 - 제목과 저자를 넣은 단색 표지
+   */
+  async createPlaceholder(book: Book, folderPath: string): Promise<string> {
+    const fileName = `${this.coverBaseName(book)}-placeholder.svg`;
+    const path = normalizePath(folderPath ? `${folderPath}/${fileName}` : fileName);
+    if (this.app.vault.getAbstractFileByPath(path)) {
+      return path;
+    }
+
+    await this.ensureFolder(folderPath);
+    await this.app.vault.create(path, buildPlaceholderSVG(book));
+    console.log(`🖼️ [Cover] Created placeholder ${path}`);
+    return path;
+  }
+
+  /**
+   * 표지 파일 이름 - ISBN, 없으면 CONTROL_NO, 둘 다 없으면 제목
+   */
+  private coverBaseName(book: Book): string {
+    const base = book.isbn || (book.controlNo ? `CN${book.controlNo}` : book.title);
+    return base.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || 'cover';
+  }
+
+  private findExistingCover(folderPath: string, baseName: string): string | null {
+    for (const extension of new Set(Object.values(CONTENT_TYPE_EXTENSIONS))) {
+      const path = normalizePath(folderPath ? `${folderPath}/${baseName}.${extension}` : `${baseName}.${extension}`);
+      if (this.app.vault.getAbstractFileByPath(path)) {
+        return path;
+      }
+    }
+    return null;
+  }
+
+  private extensionFromURL(url: string): string | null {
+    const match = url.split('?')[0].match(/\.(jpe?g|png|gif|webp)$/i);
+    return match ? match[1].toLowerCase().replace('jpeg', 'jpg') : null;
+  }
+
+  private async writeBinary(folderPath: string, fileName: string, data: ArrayBuffer): Promise<string> {
+    await this.ensureFolder(folderPath);
+    const path = normalizePath(folderPath ? `${folderPath}/${fileName}` : fileName);
+    await this.app.vault.createBinary(path, data);
+    return path;
+  }
+
+  private async ensureFolder(folderPath: string) {
+    if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+      await this.app.vault.createFolder(folderPath);
+    }
+  }
+}
+
+/**
+ * 대체 표지 SVG - 제목은 12자 단위로 최대 4줄까지 나눠 표시
+ */
+function buildPlaceholderSVG(book: Book): string {
+  const escape = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+  const titleLines = (book.title.match(/.{1,12}/g) || [book.title]).slice(0, 4);
+  const author = (book.author || '').split(/[;,]/)[0].trim();
+
+  const titleText = titleLines
+    .map((line, index) => `<text x="150" y="${150 + index * 34}" font-size="26" font-weight="bold" text-anchor="middle" fill="#ffffff">${escape(line)}</text>`)
+    .join('\n  ');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="435" viewBox="0 0 300 435">
+  <rect width="300" height="435" fill="#5b6c8f"/>
+  <rect x="16" y="16" width="268" height="403" fill="none" stroke="#ffffff" stroke-opacity="0.4" stroke-width="2"/>
+  ${titleText}
+  <text x="150" y="360" font-size="18" text-anchor="middle" fill="#e8ecf4">${escape(author)}</text>
+  <text x="150" y="395" font-size="13" text-anchor="middle" fill="#c8d0e0">${escape(book.publisher || '')}</text>
+</svg>
+`;
+}
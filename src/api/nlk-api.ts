@@ -1,17 +1,38 @@
 import { requestUrl, RequestUrlParam } from 'obsidian';
-import { Book, ISBNSearchResponse, NLKSearchResponse, SearchParams } from './types';
+import { Book, BookSearchResult, ISBNSearchResponse, SearchParams, SeojiSearchResponse } from './types';
+import { isSameISBN, normalizeISBN, toISBN10, toISBN13 } from '../utils/isbn';
+import { sortBooks } from '../utils/book-sort';
+import { hasClientFilters, matchesSearchFilters } from '../utils/book-filter';
 
 export class NationalLibraryAPI {
   private readonly BASE_URL = 'https://www.nl.go.kr';
   private readonly SEARCH_API = '/NL/search/openApi/search.do';
   private readonly ISBN_API = '/seoji/SearchApi.do';
 
+  // 서버 측 정렬을 지원하는 기준 (나머지는 클라이언트에서 정렬)
+  private readonly SEARCH_SORT_KEYS: Partial<Record<NonNullable<SearchParams['sort']>, string>> = {
+    title: 'ititle',
+    author: 'iauthor',
+    pub_year: 'ipub_year'
+  };
+  private readonly SEOJI_SORT_KEYS: Partial<Record<NonNullable<SearchParams['sort']>, string>> = {
+    title: 'TITLE',
+    pub_year: 'PUBLISH_PREDATE'
+  };
+
   constructor(private apiKey: string) {}
 
   /**
-   * 가장 간단한 검색 - 디버깅용
+   * 키워드 검색에서 서버가 전체 결과를 정렬하는 기준인지 (아니면 현재 페이지만 정렬)
+   */
+  supportsServerSort(sort: NonNullable<SearchParams['sort']>): boolean {
+    return sort === 'relevance' || !!this.SEARCH_SORT_KEYS[sort];
+  }
+
+  /**
+   * 키워드/필드 검색 - 전체 결과 수와 페이지 정보를 함께 반환
    */
-  async searchBooks(params: SearchParams): Promise<Book[]> {
+  async searchBooks(params: SearchParams): Promise<BookSearchResult> {
     console.log('🔍 [API] Starting search with params:', params);
 
     try {
@@ -44,90 +65,278 @@ export class NationalLibraryAPI {
         searchParams.append('tit', params.title);
       }
 
+      // 정렬 옵션 (서버가 지원하는 기준만 전달)
+      const sortKey = params.sort ? this.SEARCH_SORT_KEYS[params.sort] : undefined;
+      if (sortKey) {
+        searchParams.append('sort', sortKey);
+        searchParams.append('order', params.order || 'asc');
+      }
+
       const searchUrl = `${this.BASE_URL}${this.SEARCH_API}?${searchParams.toString()}`;
       console.log('🌐 [API] Request URL:', searchUrl);
 
-      // HTTP 요청 실행
-      const requestParam: RequestUrlParam = {
-        url: searchUrl,
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36'
-        }
-      };
+      const responseData = await this.requestJSON(searchUrl);
 
-      const response = await requestUrl(requestParam);
-      console.log('📦 [API] Response status:', response.status);
+      console.log('📊 [API] Response data structure:', Object.keys(responseData || {}));
+
+      // 결과 파싱
+      const books = this.parseResponse(responseData);
+      console.log(`✅ [API] Parsed ${books.length} books:`, books);
+
+      const result = this.buildSearchResult(
+        books,
+        this.extractTotal(responseData, books.length),
+        params,
+        !!sortKey
+      );
 
-      if (response.status !== 200) {
-        throw new Error(`HTTP ${response.status}: ${response.text || 'Unknown error'}`);
+      console.log(`ℹ️ [API] Search completed successfully (total: ${result.total})`);
+      return result;
+
+    } catch (error: any) {
+      console.error('❌ [API] Search failed:', error);
+      if (error.message?.includes('CORS')) {
+        throw new Error('CORS 오류입니다. API 설정을 확인해주세요.');
       }
+      throw error;
+    }
+  }
+
+  /**
+   * ISBN 서지정보(seoji) API 검색
+   */
+  async searchSeoji(params: SearchParams): Promise<BookSearchResult> {
+    console.log('🔍 [Seoji] Starting search with params:', params);
+
+    const searchParams = new URLSearchParams({
+      cert_key: this.apiKey,
+      result_style: 'json',
+      page_no: params.pageNum?.toString() || '1',
+      page_size: params.pageSize?.toString() || '20'
+    });
+
+    if (params.isbn) {
+      searchParams.append('isbn', normalizeISBN(params.isbn));
+    }
+
+    if (params.title || params.query) {
+      searchParams.append('title', (params.title || params.query)!);
+    }
+
+    if (params.author) {
+      searchParams.append('author', params.author);
+    }
+
+    if (params.publisher) {
+      searchParams.append('publisher', params.publisher);
+    }
 
-      // 응답 데이터 안전하게 파싱
-      let responseData: any;
+    const sortKey = params.sort ? this.SEOJI_SORT_KEYS[params.sort] : undefined;
+    if (sortKey) {
+      searchParams.append('sort', sortKey);
+      searchParams.append('order_by', (params.order || 'asc').toUpperCase());
+    }
+
+    const searchUrl = `${this.BASE_URL}${this.ISBN_API}?${searchParams.toString()}`;
+    console.log('🌐 [Seoji] Request URL:', searchUrl);
+
+    try {
+      const responseData: SeojiSearchResponse = await this.requestJSON(searchUrl);
+      const books = this.parseSeojiResponse(responseData);
+      console.log(`✅ [Seoji] Parsed ${books.length} books`);
+
+      const total = parseInt(responseData?.TOTAL_COUNT, 10);
+      return this.buildSearchResult(books, isNaN(total) ? books.length : total, params, !!sortKey);
+    } catch (error: any) {
+      console.error('❌ [Seoji] Search failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * ISBN으로 단일 도서 조회 (seoji API 우선, 결과가 없으면 일반 검색으로 폴백)
+   */
+  async lookupByISBN(isbn: string): Promise<Book | null> {
+    const cleanIsbn = normalizeISBN(isbn);
+    if (!cleanIsbn) {
+      return null;
+    }
+
+    console.log(`📘 [ISBN] Looking up ${cleanIsbn}`);
+
+    try {
+      const { books: seojiBooks } = await this.searchSeoji({ isbn: cleanIsbn, pageSize: 10 });
+      if (seojiBooks.length > 0) {
+        return seojiBooks.find(book => normalizeISBN(book.isbn) === cleanIsbn) || seojiBooks[0];
+      }
+    } catch (error) {
+      console.warn('⚠️ [ISBN] Seoji lookup failed, falling back to keyword search:', error);
+    }
+
+    const { books: fallback } = await this.searchBooks({ isbn: cleanIsbn, pageSize: 10 });
+    return fallback.find(book => normalizeISBN(book.isbn) === cleanIsbn) || fallback[0] || null;
+  }
+
+  /**
+   * ISBN이 정확히 일치하는 도서 전체 조회 (같은 ISBN의 여러 판/세트가 있으면 모두 반환)
+   * ISBN-10만 기록된 도서도 찾도록 ISBN-13과 ISBN-10 두 형태로 조회하고 비교
+   */
+  async findBooksByISBN(isbn: string): Promise<Book[]> {
+    const cleanIsbn = normalizeISBN(isbn);
+    if (!cleanIsbn) {
+      return [];
+    }
+
+    const forms = [toISBN13(cleanIsbn), toISBN10(cleanIsbn)].filter((form, index, list) => form && list.indexOf(form) === index);
+    const exact = (books: Book[]) => books.filter(book => isSameISBN(book.isbn, cleanIsbn));
+
+    for (const form of forms) {
       try {
-        // 텍스트 응답을 먼저 확인
-        if (response.text) {
-          const responseText = response.text.trim();
-
-          // XML 오류 응답 처리
-          if (responseText.startsWith('<error>')) {
-            const msgMatch = responseText.match(/<msg>(.*?)<\/msg>/);
-            const codeMatch = responseText.match(/<error_code>(.*?)<\/error_code>/);
-            const errorMsg = msgMatch ? msgMatch[1] : '알 수 없는 API 오류';
-            const errorCode = codeMatch ? codeMatch[1] : '000';
-
-            if (errorCode === '011' || errorMsg.includes('인증키값이 유효하지 않습니다')) {
-              throw new Error('❌ API 키가 유효하지 않습니다.\n\n설정에서 올바른 국립중앙도서관 Open API 키를 입력해주세요.\nAPI 키는 https://www.nl.go.kr/NL/contents/N31101030700.do 에서 발급받을 수 있습니다.');
-            } else {
-              throw new Error(`❌ API 오류 (${errorCode}): ${errorMsg}`);
-            }
-          }
+        const { books } = await this.searchSeoji({ isbn: form, pageSize: 10 });
+        if (exact(books).length > 0) {
+          return exact(books);
+        }
+      } catch (error) {
+        console.warn(`⚠️ [ISBN] Seoji lookup failed for ${form}, trying next:`, error);
+      }
+    }
 
-          // HTML 응답 처리
-          if (responseText.startsWith('<html') || responseText.startsWith('<!DOCTYPE')) {
-            throw new Error('❌ API에서 HTML 페이지를 반환했습니다.\n\nAPI 키나 API 엔드포인트를 확인해주세요.');
-          }
+    for (const form of forms) {
+      const { books } = await this.searchBooks({ isbn: form, pageSize: 10 });
+      if (exact(books).length > 0) {
+        return exact(books);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * HTTP 요청 후 JSON 응답을 안전하게 파싱
+   */
+  private async requestJSON(url: string): Promise<any> {
+    // HTTP 요청 실행
+    const requestParam: RequestUrlParam = {
+      url,
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36'
+      }
+    };
+
+    const response = await requestUrl(requestParam);
+    console.log('📦 [API] Response status:', response.status);
+
+    if (response.status !== 200) {
+      throw new Error(`HTTP ${response.status}: ${response.text || 'Unknown error'}`);
+    }
 
-          // 기타 XML 응답 처리
-          if (responseText.startsWith('<')) {
-            throw new Error('❌ API에서 예상하지 못한 XML 응답을 반환했습니다.\n\nAPI 설정을 확인해주세요.');
+    // 응답 데이터 안전하게 파싱
+    try {
+      // 텍스트 응답을 먼저 확인
+      if (response.text) {
+        const responseText = response.text.trim();
+
+        // XML 오류 응답 처리
+        if (responseText.startsWith('<error>')) {
+          const msgMatch = responseText.match(/<msg>(.*?)<\/msg>/);
+          const codeMatch = responseText.match(/<error_code>(.*?)<\/error_code>/);
+          const errorMsg = msgMatch ? msgMatch[1] : '알 수 없는 API 오류';
+          const errorCode = codeMatch ? codeMatch[1] : '000';
+
+          if (errorCode === '011' || errorMsg.includes('인증키값이 유효하지 않습니다')) {
+            throw new Error('❌ API 키가 유효하지 않습니다.\n\n설정에서 올바른 국립중앙도서관 Open API 키를 입력해주세요.\nAPI 키는 https://www.nl.go.kr/NL/contents/N31101030700.do 에서 발급받을 수 있습니다.');
+          } else {
+            throw new Error(`❌ API 오류 (${errorCode}): ${errorMsg}`);
           }
+        }
 
-          responseData = JSON.parse(response.text);
-        } else if (response.json && typeof response.json === 'object') {
-          responseData = response.json;
-        } else {
-          throw new Error('빈 응답을 받았습니다.');
+        // HTML 응답 처리
+        if (responseText.startsWith('<html') || responseText.startsWith('<!DOCTYPE')) {
+          throw new Error('❌ API에서 HTML 페이지를 반환했습니다.\n\nAPI 키나 API 엔드포인트를 확인해주세요.');
         }
-      } catch (parseError: any) {
-        // 이미 우리가 던진 오류라면 다시 던지기
-        if (parseError.message.startsWith('❌')) {
-          throw parseError;
+
+        // 기타 XML 응답 처리
+        if (responseText.startsWith('<')) {
+          throw new Error('❌ API에서 예상하지 못한 XML 응답을 반환했습니다.\n\nAPI 설정을 확인해주세요.');
         }
 
-        console.error('❌ [API] Response parsing failed:', parseError);
-        console.log('📄 [API] Raw response text:', response.text?.substring(0, 500) + '...');
-        throw new Error(`❌ API 응답 파싱 실패: ${parseError.message}\n\nAPI 키와 설정을 확인해주세요.`);
+        return JSON.parse(response.text);
+      } else if (response.json && typeof response.json === 'object') {
+        return response.json;
+      } else {
+        throw new Error('빈 응답을 받았습니다.');
+      }
+    } catch (parseError: any) {
+      // 이미 우리가 던진 오류라면 다시 던지기
+      if (parseError.message.startsWith('❌')) {
+        throw parseError;
       }
 
-      console.log('📊 [API] Response data structure:', Object.keys(responseData || {}));
+      console.error('❌ [API] Response parsing failed:', parseError);
+      console.log('📄 [API] Raw response text:', response.text?.substring(0, 500) + '...');
+      throw new Error(`❌ API 응답 파싱 실패: ${parseError.message}\n\nAPI 키와 설정을 확인해주세요.`);
+    }
+  }
 
-      // 결과 파싱
-      const books = this.parseResponse(responseData);
-      console.log(`✅ [API] Parsed ${books.length} books:`, books);
+  /**
+   * seoji API 응답 파싱
+   */
+  private parseSeojiResponse(data: SeojiSearchResponse): Book[] {
+    if (!data) {
+      return [];
+    }
 
-      console.log('ℹ️ [API] Search completed successfully');
-      return books;
+    const errorCode = data.errorCode || data.ERR_CODE;
+    if (errorCode) {
+      throw new Error(this.getErrorMessage(String(errorCode)));
+    }
 
-    } catch (error: any) {
-      console.error('❌ [API] Search failed:', error);
-      if (error.message?.includes('CORS')) {
-        throw new Error('CORS 오류입니다. API 설정을 확인해주세요.');
+    const docs = Array.isArray(data.docs) ? data.docs : [];
+    console.log(`✅ [Seoji] Found ${docs.length} docs (TOTAL_COUNT: ${data.TOTAL_COUNT})`);
+
+    const books: Book[] = [];
+    for (const doc of docs) {
+      try {
+        books.push(this.mapSeojiDocument(doc));
+      } catch (error) {
+        console.error('❌ [Seoji] Failed to map document:', error, doc);
       }
-      throw error;
     }
+
+    return books;
+  }
+
+  /**
+   * seoji 문서를 Book으로 변환
+   */
+  private mapSeojiDocument(doc: ISBNSearchResponse): Book {
+    return {
+      title: this.cleanText(doc.TITLE),
+      author: this.cleanText(doc.AUTHOR),
+      publisher: this.cleanText(doc.PUBLISHER),
+      publishDate: this.cleanText(doc.PUBLISH_PREDATE),
+      isbn: normalizeISBN(doc.EA_ISBN),
+      price: this.cleanText(doc.PRE_PRICE || ''),
+      pages: this.cleanText(doc.PAGE || ''),
+      size: this.cleanText(doc.BOOK_SIZE || ''),
+      kdc: this.cleanText(doc.KDC || ''),
+      ddc: this.cleanText(doc.DDC || ''),
+      subject: this.cleanText(doc.SUBJECT || ''),
+      series: this.cleanText(doc.SERIES_TITLE || ''),
+      volume: this.cleanText(doc.VOL || ''),
+      edition: this.cleanText(doc.EDITION_STMT || ''),
+      ebook: doc.EBOOK_YN === 'Y',
+      controlNo: doc.CONTROL_NO || undefined,
+      coverImage: this.cleanText(doc.TITLE_URL || ''),
+      eaAddCode: this.cleanText(doc.EA_ADD_CODE || ''),
+      form: this.cleanText(doc.FORM || ''),
+      cip: doc.CIP_YN === 'Y',
+      tocUrl: this.cleanText(doc.BOOK_TB_CNT_URL || ''),
+      introductionUrl: this.cleanText(doc.BOOK_INTRODUCTION_URL || ''),
+      summaryUrl: this.cleanText(doc.BOOK_SUMMARY_URL || ''),
+      source: 'nlk'
+    };
   }
 
   /**
@@ -232,6 +441,53 @@ export class NationalLibraryAPI {
     return books;
   }
 
+  /**
+   * 검색 결과 봉투 생성 - 서버가 지원하지 않는 정렬/필터는 현재 페이지 결과에 직접 적용
+   */
+  private buildSearchResult(
+    books: Book[],
+    total: number,
+    params: SearchParams,
+    serverSorted: boolean
+  ): BookSearchResult {
+    const needsClientSort = !!params.sort && params.sort !== 'relevance' && !serverSorted;
+    if (needsClientSort) {
+      console.log(`↕️ [API] Sorting ${books.length} books on client by ${params.sort} (${params.order || 'asc'})`);
+    }
+
+    const clientFiltered = hasClientFilters(params);
+    let resultBooks = clientFiltered ? books.filter(book => matchesSearchFilters(book, params)) : books;
+    if (clientFiltered) {
+      console.log(`🧹 [API] Client filters kept ${resultBooks.length}/${books.length} books`);
+    }
+
+    if (needsClientSort) {
+      resultBooks = sortBooks(resultBooks, params.sort!, params.order || 'asc');
+    }
+
+    return {
+      books: resultBooks,
+      total,
+      pageNum: params.pageNum || 1,
+      pageSize: params.pageSize || 20,
+      clientSorted: needsClientSort,
+      clientFiltered
+    };
+  }
+
+  /**
+   * 응답에서 전체 결과 수 추출 (없으면 현재 페이지 결과 수 사용)
+   */
+  private extractTotal(data: any, fallback: number): number {
+    if (!data || typeof data !== 'object') {
+      return fallback;
+    }
+
+    const rawTotal = this.extractField(data, ['total', 'TOTAL', 'totalCount', 'TOTAL_COUNT']);
+    const total = parseInt(rawTotal, 10);
+    return isNaN(total) ? fallback : total;
+  }
+
   /**
    * 여러 필드명에서 값 추출 (유연한 매핑)
    */
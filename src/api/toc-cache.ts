@@ -0,0 +1,129 @@
+import { Book } from './types';
+
+/**
+ * 목차 캐시 항목 - 찾은 목차(found)와 목차가 없다고 확인된 결과(empty)를 모두 저장
+ */
+export interface TOCCacheEntry {
+  key: string;
+  title: string;
+  status: 'found' | 'empty';
+  content?: string;
+  method: string;
+  confidence: number;
+  cachedAt: number;
+}
+
+export type TOCCacheData = Record<string, TOCCacheEntry>;
+
+export interface TOCCacheOptions {
+  foundTTLDays: number;
+  emptyTTLDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ISBN/CONTROL_NO 기준 목차 캐시 (플러그인 데이터에 저장)
+ */
+export class TOCCache {
+  private entries: TOCCacheData;
+
+  constructor(data: TOCCacheData | undefined, private getOptions: () => TOCCacheOptions) {
+    this.entries = { ...(data || {}) };
+  }
+
+  /**
+   * 도서의 캐시 키 목록 (ISBN 우선)
+   */
+  static keysFor(book: Pick<Book, 'isbn' | 'controlNo'>): string[] {
+    const keys: string[] = [];
+    const isbn = (book.isbn || '').replace(/[^0-9Xx]/g, '').toUpperCase();
+    if (isbn) keys.push(`isbn:${isbn}`);
+    if (book.controlNo) keys.push(`cn:${book.controlNo}`);
+    return keys;
+  }
+
+  /**
+   * 유효한 캐시 항목 조회 (만료된 항목은 삭제)
+   */
+  get(book: Pick<Book, 'isbn' | 'controlNo'>): TOCCacheEntry | null {
+    for (const key of TOCCache.keysFor(book)) {
+      const entry = this.entries[key];
+      if (!entry) continue;
+
+      if (this.isExpired(entry)) {
+        delete this.entries[key];
+        continue;
+      }
+
+      return entry;
+    }
+    return null;
+  }
+
+  /**
+   * 추출 결과 저장 - 도서의 모든 키(ISBN, CONTROL_NO)에 같은 항목을 기록
+   */
+  set(book: Book, result: { success: boolean; content?: string; method: string; confidence: number }): void {
+    const cachedAt = Date.now();
+
+    for (const key of TOCCache.keysFor(book)) {
+      this.entries[key] = {
+        key,
+        title: book.title,
+        status: result.success && result.content ? 'found' : 'empty',
+        content: result.success ? result.content : undefined,
+        method: result.method,
+        confidence: result.confidence,
+        cachedAt
+      };
+    }
+  }
+
+  /**
+   * 도서의 캐시 항목 삭제
+   */
+  invalidate(book: Pick<Book, 'isbn' | 'controlNo'>): number {
+    const keys = TOCCache.keysFor(book).filter(key => this.entries[key]);
+    keys.forEach(key => delete this.entries[key]);
+    return keys.length;
+  }
+
+  remove(key: string): void {
+    delete this.entries[key];
+  }
+
+  clear(): void {
+    this.entries = {};
+  }
+
+  /**
+   * 만료된 항목 정리
+   */
+  pruneExpired(): number {
+    const expired = Object.values(this.entries).filter(entry => this.isExpired(entry));
+    expired.forEach(entry => delete this.entries[entry.key]);
+    return expired.length;
+  }
+
+  /**
+   * 전체 항목 (최근 저장 순)
+   */
+  list(): TOCCacheEntry[] {
+    return Object.values(this.entries).sort((a, b) => b.cachedAt - a.cachedAt);
+  }
+
+  expiresAt(entry: TOCCacheEntry): number {
+    const { foundTTLDays, emptyTTLDays } = this.getOptions();
+    const ttlDays = entry.status === 'found' ? foundTTLDays : emptyTTLDays;
+    return entry.cachedAt + ttlDays * DAY_MS;
+  }
+
+  isExpired(entry: TOCCacheEntry): boolean {
+    return Date.now() > this.expiresAt(entry);
+  }
+
+  toJSON(): TOCCacheData {
+    return this.entries;
+  }
+}
@@ -5,9 +5,12 @@ export interface PerformanceMetrics {
   totalAttempts: number;
   totalSuccesses: number;
   totalResponseTime: number;
+  // 네트워크 오류 등 예외로 끝난 시도 (성공률 계산에서 제외)
+  totalErrors: number;
   methodBreakdown: Record<string, {
     attempts: number;
     successes: number;
+    errors: number;
     avgResponseTime: number;
     avgConfidence: number;
     lastUsed: Date;
@@ -22,6 +25,7 @@ export interface PerformanceMetrics {
     book: string;
     method: string;
     success: boolean;
+    error?: boolean;
     confidence: number;
     responseTime: number;
   }>;
@@ -43,6 +47,7 @@ export class TOCPerformanceMonitor {
       totalAttempts: 0,
       totalSuccesses: 0,
       totalResponseTime: 0,
+      totalErrors: 0,
       methodBreakdown: {},
       confidenceDistribution: {
         high: 0,
@@ -54,27 +59,22 @@ export class TOCPerformanceMonitor {
   }
 
   /**
-   * 추출 결과 기록
+   * 추출 결과 기록 (errored는 예외로 끝나 방법이 제대로 실행되지 못한 시도)
    */
   recordResult(
     bookTitle: string,
     method: string,
     success: boolean,
     confidence: number,
-    responseTime: number
+    responseTime: number,
+    errored = false
   ): void {
-    this.metrics.totalAttempts++;
-    this.metrics.totalResponseTime += responseTime;
-
-    if (success) {
-      this.metrics.totalSuccesses++;
-    }
-
     // 방법별 통계 업데이트
     if (!this.metrics.methodBreakdown[method]) {
       this.metrics.methodBreakdown[method] = {
         attempts: 0,
         successes: 0,
+        errors: 0,
         avgResponseTime: 0,
         avgConfidence: 0,
         lastUsed: new Date()
@@ -82,6 +82,22 @@ export class TOCPerformanceMonitor {
     }
 
     const methodStats = this.metrics.methodBreakdown[method];
+
+    if (errored) {
+      // 오류로 끝난 시도는 성공률, 응답시간에 넣지 않고 따로 집계
+      this.metrics.totalErrors++;
+      methodStats.errors++;
+      this.addRecentResult({ timestamp: new Date(), book: bookTitle, method, success: false, error: true, confidence: 0, responseTime });
+      return;
+    }
+
+    this.metrics.totalAttempts++;
+    this.metrics.totalResponseTime += responseTime;
+
+    if (success) {
+      this.metrics.totalSuccesses++;
+    }
+
     methodStats.attempts++;
     methodStats.lastUsed = new Date();
 
@@ -107,7 +123,7 @@ export class TOCPerformanceMonitor {
     }
 
     // 최근 결과 기록
-    this.metrics.recentResults.push({
+    this.addRecentResult({
       timestamp: new Date(),
       book: bookTitle,
       method,
@@ -115,8 +131,14 @@ export class TOCPerformanceMonitor {
       confidence,
       responseTime
     });
+  }
+
+  /**
+   * 최근 결과 추가 (목록 크기 제한)
+   */
+  private addRecentResult(result: PerformanceMetrics['recentResults'][number]): void {
+    this.metrics.recentResults.push(result);
 
-    // 최근 결과 목록 크기 제한
     if (this.metrics.recentResults.length > this.maxRecentResults) {
       this.metrics.recentResults.shift();
     }
@@ -145,6 +167,7 @@ export class TOCPerformanceMonitor {
     method: string;
     successRate: number;
     attempts: number;
+    errors: number;
     avgResponseTime: number;
     avgConfidence: number;
     lastUsed: Date;
@@ -154,6 +177,7 @@ export class TOCPerformanceMonitor {
         method,
         successRate: stats.attempts > 0 ? stats.successes / stats.attempts : 0,
         attempts: stats.attempts,
+        errors: stats.errors,
         avgResponseTime: stats.avgResponseTime,
         avgConfidence: stats.avgConfidence,
         lastUsed: stats.lastUsed
@@ -181,6 +205,34 @@ export class TOCPerformanceMonitor {
     return scoredMethods.length > 0 ? scoredMethods[0].method : methodStats[0].method;
   }
 
+  /**
+   * 성과 기준 추천 전략 순서 - 오류 없이 3회 이상 실행된 방법을 종합 점수 순으로 앞에 두고 나머지는 현재 순서 유지
+   */
+  recommendStrategyOrder(currentOrder: string[]): string[] {
+    const scores = new Map(
+      this.getMethodSuccessRates()
+        .filter(stats => stats.attempts >= 3)
+        .map(stats => [stats.method, stats.successRate * 0.7 + stats.avgConfidence * 0.3] as [string, number])
+    );
+
+    const scored = currentOrder
+      .filter(method => scores.has(method))
+      .sort((a, b) => scores.get(b)! - scores.get(a)!);
+    const unscored = currentOrder.filter(method => !scores.has(method));
+
+    return [...scored, ...unscored];
+  }
+
+  /**
+   * 충분히 실행됐지만 한 번도 성공하지 못한 방법 (오류로 끝난 시도는 세지 않음)
+   */
+  getFailingMethods(minAttempts = 10): string[] {
+    // attempts에는 오류로 끝난 시도가 들어 있지 않으므로 실제로 실행된 횟수만 기준에 반영
+    return Object.entries(this.metrics.methodBreakdown)
+      .filter(([, stats]) => stats.attempts >= minAttempts && stats.successes === 0)
+      .map(([method]) => method);
+  }
+
   /**
    * 성능 개선 추천사항
    */
@@ -190,10 +242,15 @@ export class TOCPerformanceMonitor {
     const avgResponseTime = this.getAverageResponseTime();
     const methodStats = this.getMethodSuccessRates();
 
-    // 전체 성공률 기반 추천
-    if (overallSuccessRate < 0.5) {
+    // 오류 기반 추천 (오류로 끝난 시도가 정상 실행보다 많을 때)
+    if (this.metrics.totalErrors > this.metrics.totalAttempts) {
+      recommendations.push(`오류로 끝난 시도가 ${this.metrics.totalErrors}회 있습니다. 네트워크 상태나 API 키를 점검하세요.`);
+    }
+
+    // 전체 성공률 기반 추천 (정상 실행된 시도가 있을 때만)
+    if (this.metrics.totalAttempts > 0 && overallSuccessRate < 0.5) {
       recommendations.push('전체 성공률이 50% 미만입니다. API 키 확인 또는 네트워크 상태를 점검하세요.');
-    } else if (overallSuccessRate < 0.7) {
+    } else if (this.metrics.totalAttempts > 0 && overallSuccessRate < 0.7) {
       recommendations.push('성공률 개선을 위해 더 많은 추출 방법을 활성화하는 것을 고려하세요.');
     }
 
@@ -257,6 +314,7 @@ export class TOCPerformanceMonitor {
     report += `📈 전체 통계:\n`;
     report += `  • 총 시도: ${this.metrics.totalAttempts}회\n`;
     report += `  • 총 성공: ${this.metrics.totalSuccesses}회\n`;
+    report += `  • 오류: ${this.metrics.totalErrors}회 (성공률 계산에서 제외)\n`;
     report += `  • 전체 성공률: ${(overallSuccessRate * 100).toFixed(1)}%\n`;
     report += `  • 평균 응답시간: ${avgResponseTime.toFixed(0)}ms\n\n`;
 
@@ -276,7 +334,7 @@ export class TOCPerformanceMonitor {
       methodStats.forEach((stats, index) => {
         const rank = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : '  ';
         report += `  ${rank} ${stats.method}:\n`;
-        report += `     성공률: ${(stats.successRate * 100).toFixed(1)}% (${stats.attempts}회 시도)\n`;
+        report += `     성공률: ${(stats.successRate * 100).toFixed(1)}% (${stats.attempts}회 시도, 오류 ${stats.errors}회)\n`;
         report += `     평균 응답시간: ${stats.avgResponseTime.toFixed(0)}ms\n`;
         report += `     평균 신뢰도: ${(stats.avgConfidence * 100).toFixed(1)}%\n`;
         report += `     마지막 사용: ${stats.lastUsed.toLocaleString()}\n\n`;
@@ -295,7 +353,7 @@ export class TOCPerformanceMonitor {
         .slice(-5)
         .reverse()
         .forEach((result, index) => {
-          const status = result.success ? '✅' : '❌';
+          const status = result.success ? '✅' : result.error ? '⚠️' : '❌';
           report += `  ${status} ${result.book} (${result.method})\n`;
           report += `     신뢰도: ${(result.confidence * 100).toFixed(1)}%, 응답시간: ${result.responseTime}ms\n`;
           report += `     시간: ${result.timestamp.toLocaleString()}\n\n`;
@@ -349,8 +407,11 @@ export class TOCPerformanceMonitor {
             if (method.lastUsed) {
               method.lastUsed = new Date(method.lastUsed);
             }
+            // 오류 집계 이전에 저장된 메트릭스
+            method.errors = method.errors || 0;
           });
         }
+        imported.totalErrors = imported.totalErrors || 0;
 
         this.metrics = imported;
         return true;
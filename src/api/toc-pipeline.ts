@@ -0,0 +1,293 @@
+import { requestUrl } from 'obsidian';
+import { Book } from './types';
+import { SessionManager } from './session-manager';
+import { calculateConfidence, isValidTableOfContents } from '../utils/toc-text';
+
+/**
+ * 전략 실행 전제 조건 - 도서 정보에 해당 필드가 있어야 실행
+ */
+export interface TOCStrategyRequirements {
+  controlNo?: boolean;
+  isbn?: boolean;
+  kakaoUrl?: boolean;
+}
+
+/**
+ * 전략이 공유하는 실행 컨텍스트 (한 번의 파이프라인 실행 동안 유지)
+ */
+export interface TOCStrategyContext {
+  apiKey: string;
+  session: SessionManager;
+  request(url: string, headers?: Record<string, string>): Promise<string>;
+  getDetailPageHTML(book: Book): Promise<string>;
+}
+
+/**
+ * 목차 추출 전략
+ */
+export interface TOCStrategy {
+  name: string;
+  label: string;
+  priority: number; // 낮을수록 먼저 실행 (설정에 순서가 없을 때)
+  requires: TOCStrategyRequirements;
+  confidenceWeight: number; // 신뢰도 계산 시 더하는 전략별 가중치
+  extract(book: Book, context: TOCStrategyContext): Promise<string | null>;
+}
+
+/**
+ * 설정에 저장되는 전략 사용 여부/순서
+ */
+export interface TOCStrategyConfig {
+  name: string;
+  enabled: boolean;
+}
+
+/**
+ * 전략 한 번의 시도 결과
+ */
+export interface TOCAttempt {
+  method: string;
+  success: boolean;
+  confidence: number;
+  responseTime: number;
+  error?: string;
+  // 예외로 끝난 시도 (네트워크 오류, 시간 초과, HTTP 오류 등) - 목차가 없다는 뜻이 아님
+  thrown?: boolean;
+}
+
+/**
+ * 파이프라인 실행 결과
+ */
+export interface TOCResult {
+  success: boolean;
+  content?: string;
+  method: string;
+  confidence: number;
+  responseTime: number;
+  error?: string;
+  attempts: TOCAttempt[];
+}
+
+/**
+ * 결과를 믿을 수 있는지 - 목차를 찾았거나, 끝까지 실행된 전략이 하나 이상 있는데 못 찾은 경우
+ * (모든 시도가 예외로 끝났으면 일시적인 오류일 수 있어 "목차 없음"으로 볼 수 없음)
+ */
+export function isConclusiveTOCResult(result: Pick<TOCResult, 'success' | 'attempts'>): boolean {
+  return result.success || result.attempts.some(attempt => !attempt.thrown);
+}
+
+// 이 신뢰도 이상이면 남은 전략을 실행하지 않음
+const EARLY_RETURN_CONFIDENCE = 0.8;
+
+const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/**
+ * 저장된 설정을 등록된 전략 목록과 맞춤 - 없는 전략은 제거, 새 전략은 우선순위 순으로 뒤에 추가
+ */
+export function normalizeTOCStrategyConfig(config: TOCStrategyConfig[] | undefined, strategies: TOCStrategy[]): TOCStrategyConfig[] {
+  const known = new Set(strategies.map(strategy => strategy.name));
+  const seen = new Set<string>();
+  const normalized: TOCStrategyConfig[] = [];
+
+  for (const entry of config || []) {
+    if (known.has(entry.name) && !seen.has(entry.name)) {
+      normalized.push({ name: entry.name, enabled: entry.enabled });
+      seen.add(entry.name);
+    }
+  }
+
+  [...strategies]
+    .sort((a, b) => a.priority - b.priority)
+    .filter(strategy => !seen.has(strategy.name))
+    .forEach(strategy => normalized.push({ name: strategy.name, enabled: true }));
+
+  return normalized;
+}
+
+/**
+ * 목차 추출 파이프라인 - 등록된 전략을 설정 순서대로 실행하고 가장 신뢰도 높은 결과를 반환
+ */
+export class TOCPipeline {
+  private strategies = new Map<string, TOCStrategy>();
+  private methodStats = new Map<string, { attempts: number; successes: number }>();
+
+  constructor(private apiKey: string, strategies: TOCStrategy[] = []) {
+    strategies.forEach(strategy => this.register(strategy));
+  }
+
+  /**
+   * 전략 등록 (같은 이름이면 교체)
+   */
+  register(strategy: TOCStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  /**
+   * 등록된 전략 목록 (우선순위 순)
+   */
+  getStrategies(): TOCStrategy[] {
+    return [...this.strategies.values()].sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * 설정 기준으로 실행할 전략 목록 결정
+   */
+  resolveStrategies(config?: TOCStrategyConfig[]): TOCStrategy[] {
+    return normalizeTOCStrategyConfig(config, this.getStrategies())
+      .filter(entry => entry.enabled)
+      .map(entry => this.strategies.get(entry.name)!);
+  }
+
+  /**
+   * 목차 추출 실행
+   */
+  async run(book: Book, config?: TOCStrategyConfig[]): Promise<TOCResult> {
+    console.log(`📑 [TOC] Pipeline start: ${book.title}`);
+    const startTime = Date.now();
+    const context = this.createContext();
+    const attempts: TOCAttempt[] = [];
+    let best: { content: string; method: string; confidence: number } | null = null;
+
+    for (const strategy of this.resolveStrategies(config)) {
+      if (!this.meetsRequirements(book, strategy.requires)) {
+        continue;
+      }
+
+      const attempt = await this.runStrategy(strategy, book, context);
+      attempts.push(attempt.result);
+
+      if (attempt.content && (!best || attempt.result.confidence > best.confidence)) {
+        best = { content: attempt.content, method: strategy.name, confidence: attempt.result.confidence };
+      }
+
+      if (best && best.confidence >= EARLY_RETURN_CONFIDENCE) {
+        break;
+      }
+    }
+
+    const responseTime = Date.now() - startTime;
+
+    if (best) {
+      console.log(`✅ [TOC] ${best.method} (confidence ${best.confidence})`);
+      return { success: true, content: best.content, method: best.method, confidence: best.confidence, responseTime, attempts };
+    }
+
+    console.log(`❌ [TOC] No table of contents found for: ${book.title}`);
+    return {
+      success: false,
+      method: 'all-failed',
+      confidence: 0,
+      responseTime,
+      error: attempts.length > 0 ? '모든 목차 추출 방법이 실패했습니다.' : '실행 가능한 목차 추출 방법이 없습니다.',
+      attempts
+    };
+  }
+
+  /**
+   * 전략별 시도/성공 통계
+   */
+  getMethodStats(): Record<string, { attempts: number; successes: number; successRate: number }> {
+    const stats: Record<string, { attempts: number; successes: number; successRate: number }> = {};
+
+    this.methodStats.forEach((value, key) => {
+      stats[key] = {
+        attempts: value.attempts,
+        successes: value.successes,
+        successRate: value.attempts > 0 ? value.successes / value.attempts : 0
+      };
+    });
+
+    return stats;
+  }
+
+  /**
+   * 전략 하나 실행 - 예외와 검증 실패를 시도 결과로 변환
+   */
+  private async runStrategy(strategy: TOCStrategy, book: Book, context: TOCStrategyContext): Promise<{ content?: string; result: TOCAttempt }> {
+    const startTime = Date.now();
+    const stats = this.methodStats.get(strategy.name) || { attempts: 0, successes: 0 };
+    stats.attempts++;
+    this.methodStats.set(strategy.name, stats);
+
+    try {
+      const content = await strategy.extract(book, context);
+
+      if (content && isValidTableOfContents(content)) {
+        stats.successes++;
+        return {
+          content,
+          result: {
+            method: strategy.name,
+            success: true,
+            confidence: calculateConfidence(content, strategy.confidenceWeight),
+            responseTime: Date.now() - startTime
+          }
+        };
+      }
+
+      return {
+        result: {
+          method: strategy.name,
+          success: false,
+          confidence: 0,
+          responseTime: Date.now() - startTime,
+          error: `${strategy.label}: 유효한 목차를 찾을 수 없습니다.`
+        }
+      };
+    } catch (error) {
+      console.warn(`⚠️ [TOC] ${strategy.name} failed:`, error);
+      return {
+        result: {
+          method: strategy.name,
+          success: false,
+          confidence: 0,
+          responseTime: Date.now() - startTime,
+          error: `${strategy.label}: ${error.message}`,
+          thrown: true
+        }
+      };
+    }
+  }
+
+  private meetsRequirements(book: Book, requires: TOCStrategyRequirements): boolean {
+    if (requires.controlNo && !book.controlNo) return false;
+    if (requires.isbn && !book.isbn) return false;
+    if (requires.kakaoUrl && !book.kakaoUrl) return false;
+    return true;
+  }
+
+  /**
+   * 실행 컨텍스트 생성 - 세션과 상세 페이지 HTML을 전략 사이에서 재사용
+   */
+  private createContext(): TOCStrategyContext {
+    const session = new SessionManager(this.apiKey);
+    const detailPages = new Map<string, Promise<string>>();
+
+    const request = async (url: string, headers?: Record<string, string>): Promise<string> => {
+      const response = await requestUrl({
+        url,
+        method: 'GET',
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': 'ko-KR,ko;q=0.9,en;q=0.8',
+          ...headers
+        }
+      });
+      return response.text || '';
+    };
+
+    return {
+      apiKey: this.apiKey,
+      session,
+      request,
+      getDetailPageHTML: (book: Book) => {
+        const controlNo = book.controlNo || '';
+        if (!detailPages.has(controlNo)) {
+          detailPages.set(controlNo, request(`https://www.nl.go.kr/NL/contents/detail.do?viewKey=${controlNo}`));
+        }
+        return detailPages.get(controlNo)!;
+      }
+    };
+  }
+}
@@ -0,0 +1,298 @@
+import { Book } from './types';
+import { KakaoBookDocument } from '../types/kakao-types';
+import { KakaoTOCService } from './kakao-toc-service';
+import { TOCStrategy, TOCStrategyConfig, TOCStrategyContext } from './toc-pipeline';
+import {
+  cleanTableOfContentsText,
+  decodeHTMLEntities,
+  extractStructuredTOC,
+  extractTOCFromJSON,
+  extractTOCFromTxtContent,
+  isValidTableOfContents,
+  parseTableOfContentsText
+} from '../utils/toc-text';
+
+const NLK_BASE_URL = 'https://www.nl.go.kr';
+
+/**
+ * 정규식 목록을 차례로 적용해 첫 번째로 유효한 목차를 반환
+ */
+function findFirstValid(html: string, patterns: RegExp[], toText: (fragment: string) => string): string | null {
+  for (const pattern of patterns) {
+    for (const match of html.matchAll(pattern)) {
+      const candidate = toText(match[1] || match[0]);
+      if (isValidTableOfContents(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * URL을 차례로 요청해 첫 번째로 얻은 목차를 반환
+ * 응답을 하나라도 받았으면 목차가 없을 때 null, 모든 요청이 실패했으면 마지막 오류를 다시 던짐
+ * (오프라인, HTTP 오류를 "목차 없음"으로 보고 캐시하지 않도록)
+ */
+async function tryEachUrl(
+  urls: string[],
+  label: string,
+  fetchTOC: (url: string) => Promise<string | null>
+): Promise<string | null> {
+  let responded = false;
+  let lastError: unknown;
+
+  for (const url of urls) {
+    try {
+      const toc = await fetchTOC(url);
+      responded = true;
+      if (toc) return toc;
+    } catch (error) {
+      console.warn(`⚠️ [TOC] ${label} 실패: ${url}`, error);
+      lastError = error;
+    }
+  }
+
+  if (!responded && lastError) throw lastError;
+  return null;
+}
+
+/**
+ * 본문이 HTML이면 목차 줄만 파싱, 일반 텍스트면 목차 구간 추출
+ */
+function parseFileContent(text: string): string {
+  return /<\/?[a-z][^>]*>/i.test(text) ? parseTableOfContentsText(text) : extractTOCFromTxtContent(text);
+}
+
+/**
+ * ISBN 서지정보의 목차 파일(BOOK_TB_CNT_URL)
+ */
+const tocFileStrategy: TOCStrategy = {
+  name: 'nlk-toc-file',
+  label: '서지정보 목차 파일',
+  priority: 10,
+  requires: { isbn: true },
+  confidenceWeight: 0.3,
+  async extract(book: Book, context: TOCStrategyContext) {
+    let tocUrl = book.tocUrl;
+
+    if (!tocUrl) {
+      const cleanIsbn = book.isbn.replace(/[-\s]/g, '');
+      const seojiUrl = `${NLK_BASE_URL}/seoji/SearchApi.do?cert_key=${context.apiKey}&result_style=json&page_no=1&page_size=1&isbn=${cleanIsbn}`;
+      const data = JSON.parse(await context.request(seojiUrl, { 'Accept': 'application/json' }));
+      tocUrl = data.docs?.[0]?.BOOK_TB_CNT_URL;
+    }
+
+    if (!tocUrl) {
+      return null;
+    }
+
+    // 목차 파일은 상세 페이지를 거쳐야 내려받을 수 있는 경우가 있어 세션으로 요청
+    const referrer = book.controlNo
+      ? await context.session.navigateToBookDetail(book.controlNo, book.title)
+      : undefined;
+    const response = await context.session.makeAuthenticatedRequest(tocUrl, referrer);
+    return response?.text ? parseFileContent(response.text) : null;
+  }
+};
+
+/**
+ * 국립중앙도서관 상세 페이지 HTML 분석
+ */
+const detailPageStrategy: TOCStrategy = {
+  name: 'nlk-detail-html',
+  label: '상세 페이지 HTML 분석',
+  priority: 20,
+  requires: { controlNo: true },
+  confidenceWeight: 0.3,
+  async extract(book: Book, context: TOCStrategyContext) {
+    const html = await context.getDetailPageHTML(book);
+    if (!html) return null;
+
+    // 1단계: 목차 라벨이 붙은 표/영역
+    const sectionPatterns = [
+      /<table[^>]*class="[^"]*(?:toc|목차|contents|table_of_contents)[^"]*"[^>]*>([\s\S]{100,3000}?)<\/table>/gi,
+      /<tr[^>]*>[\s\S]*?<(?:th|td)[^>]*>\s*(?:목차|차례|Contents|Table)\s*<\/(?:th|td)>\s*<(?:th|td)[^>]*>([\s\S]{50,3000}?)<\/(?:th|td)>[\s\S]*?<\/tr>/gi,
+      /<(?:div|section)[^>]*(?:class|id)="[^"]*(?:toc|목차|contents?)[^"]*"[^>]*>([\s\S]{50,3000}?)<\/(?:div|section)>/gi,
+      /<(?:ul|ol)[^>]*class="[^"]*(?:toc|목차|contents?)[^"]*"[^>]*>([\s\S]{50,3000}?)<\/(?:ul|ol)>/gi
+    ];
+    const fromSection = findFirstValid(html, sectionPatterns, extractStructuredTOC);
+    if (fromSection) return cleanTableOfContentsText(fromSection);
+
+    // 2단계: 목차 머리글 다음의 구조화된 블록
+    const headingPatterns = [
+      /(?:목차|차례|Contents)[\s\S]{0,100}?<(?:table|div|ul|ol)[^>]*>([\s\S]{100,2000}?)<\/(?:table|div|ul|ol)>/gi,
+      /<(?:div|span)[^>]*>\s*(?:목차|차례)\s*<\/(?:div|span)>\s*<[^>]*>([\s\S]{30,2000}?)<\/[^>]*>/gi
+    ];
+    const fromHeading = findFirstValid(html, headingPatterns, extractStructuredTOC);
+    if (fromHeading) return cleanTableOfContentsText(fromHeading);
+
+    // 3단계: 장/번호 구조가 3개 이상 이어지는 텍스트
+    const textPatterns = [
+      /(?:제?\s*\d+\s*[장부절편][\s\S]{5,80}?(?:\n|<br>|<\/[^>]*>)){3,}/gi,
+      /(?:\d+\.\s*[가-힣][\s\S]{5,80}?(?:\n|<br>|<\/[^>]*>)){3,}/gi
+    ];
+    const fromText = findFirstValid(html, textPatterns, extractStructuredTOC);
+    return fromText ? cleanTableOfContentsText(fromText) : null;
+  }
+};
+
+/**
+ * 목차 API 엔드포인트 직접 호출
+ */
+const directApiStrategy: TOCStrategy = {
+  name: 'nlk-direct-api',
+  label: '목차 API 직접 호출',
+  priority: 30,
+  requires: { controlNo: true },
+  confidenceWeight: 0.25,
+  async extract(book: Book, context: TOCStrategyContext) {
+    const apiUrls = [
+      `${NLK_BASE_URL}/NL/search/openApi/tocData.do?key=${context.apiKey}&controlNo=${book.controlNo}`,
+      `${NLK_BASE_URL}/api/contents/tableOfContents?viewKey=${book.controlNo}`,
+      `${NLK_BASE_URL}/seoji/contents/api/toc?CN=${book.controlNo}&format=json`
+    ];
+
+    return tryEachUrl(apiUrls, 'API URL', async apiUrl => {
+      const text = await context.request(apiUrl, { 'Accept': 'application/json' });
+      if (!text) return null;
+
+      let toc: string | null;
+      try {
+        toc = extractTOCFromJSON(JSON.parse(text));
+      } catch {
+        toc = parseTableOfContentsText(text);
+      }
+
+      return isValidTableOfContents(toc) ? toc : null;
+    });
+  }
+};
+
+/**
+ * 상세 페이지의 JSON-LD, 메타 태그, data 속성
+ */
+const metadataStrategy: TOCStrategy = {
+  name: 'nlk-metadata',
+  label: '메타데이터 분석',
+  priority: 40,
+  requires: { controlNo: true },
+  confidenceWeight: 0.2,
+  async extract(book: Book, context: TOCStrategyContext) {
+    const html = await context.getDetailPageHTML(book);
+    if (!html) return null;
+
+    const jsonPatterns = [
+      /<script[^>]*type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/gi,
+      /var\s+bookData\s*=\s*(\{[\s\S]*?\});/gi,
+      /window\.bookInfo\s*=\s*(\{[\s\S]*?\});/gi
+    ];
+    const fromJSON = findFirstValid(html, jsonPatterns, fragment => {
+      try {
+        return extractTOCFromJSON(JSON.parse(fragment)) || '';
+      } catch {
+        return '';
+      }
+    });
+    if (fromJSON) return fromJSON;
+
+    const metaPatterns = [
+      /<meta[^>]*name="(?:toc|tableOfContents|contents)"[^>]*content="([^"]*)"[^>]*>/gi,
+      /<meta[^>]*property="book:(?:contents?|structure|outline)"[^>]*content="([^"]*)"[^>]*>/gi,
+      /<meta[^>]*(?:name="description"|property="og:description")[^>]*content="([^"]*목차[^"]*)"[^>]*>/gi,
+      /<[^>]*data-(?:toc|contents)="([^"]*)"[^>]*>/gi
+    ];
+    return findFirstValid(html, metaPatterns, fragment => parseTableOfContentsText(decodeHTMLEntities(fragment)));
+  }
+};
+
+/**
+ * 세션을 유지한 채 목차 TXT 파일 다운로드
+ */
+const txtDownloadStrategy: TOCStrategy = {
+  name: 'nlk-txt-download',
+  label: '목차 TXT 다운로드',
+  priority: 50,
+  requires: { controlNo: true },
+  confidenceWeight: 0.2,
+  async extract(book: Book, context: TOCStrategyContext) {
+    const detailPageUrl = await context.session.navigateToBookDetail(book.controlNo!, book.title);
+    const txtUrls = [
+      `${NLK_BASE_URL}/NL/contents/contentsFileDownload.do?viewKey=${book.controlNo}&fileType=txt`,
+      `${NLK_BASE_URL}/seoji/contents/ContentsTxtDownload.do?CN=${book.controlNo}`,
+      `${NLK_BASE_URL}/NL/search/openApi/tocText.do?key=${context.apiKey}&controlNo=${book.controlNo}`
+    ];
+
+    return tryEachUrl(txtUrls, 'TXT URL', async txtUrl => {
+      const response = await context.session.makeAuthenticatedRequest(txtUrl, detailPageUrl);
+      const toc = response?.text ? extractTOCFromTxtContent(response.text) : '';
+      return isValidTableOfContents(toc) ? toc : null;
+    });
+  }
+};
+
+/**
+ * 목차 탭 등 대체 상세 페이지 URL
+ */
+const alternateUrlStrategy: TOCStrategy = {
+  name: 'nlk-alternate-urls',
+  label: '대체 상세 페이지 URL',
+  priority: 60,
+  requires: { controlNo: true },
+  confidenceWeight: 0.1,
+  async extract(book: Book, context: TOCStrategyContext) {
+    const urls = [
+      `${NLK_BASE_URL}/NL/contents/detail.do?viewKey=${book.controlNo}&section=toc`,
+      `${NLK_BASE_URL}/NL/contents/search.do?viewKey=${book.controlNo}&viewType=AH1&tab=toc`
+    ];
+    const patterns = [
+      /<(?:table|div|ul|ol)[^>]*(?:class|id)="[^"]*(?:toc|목차|contents)[^"]*"[^>]*>([\s\S]{100,3000}?)<\/(?:table|div|ul|ol)>/gi,
+      /<tr[^>]*>[\s\S]*?<(?:th|td)[^>]*>\s*(?:목차|차례|Contents)\s*<\/(?:th|td)>\s*<(?:th|td)[^>]*>([\s\S]{100,3000}?)<\/(?:th|td)>[\s\S]*?<\/tr>/gi
+    ];
+
+    return tryEachUrl(urls, '대체 URL', async url =>
+      findFirstValid(await context.request(url), patterns, parseTableOfContentsText)
+    );
+  }
+};
+
+/**
+ * 카카오(다음) 도서 상세 페이지
+ */
+const kakaoDetailStrategy: TOCStrategy = {
+  name: 'kakao-detail-page',
+  label: '카카오 도서 상세 페이지',
+  priority: 70,
+  requires: { kakaoUrl: true },
+  confidenceWeight: 0.15,
+  async extract(book: Book) {
+    const kakaoBook = { title: book.title, url: book.kakaoUrl } as KakaoBookDocument;
+    const result = await new KakaoTOCService().extractTableOfContents(kakaoBook);
+    return result.success && result.content ? result.content : null;
+  }
+};
+
+/**
+ * 기본 제공 목차 추출 전략
+ */
+export const TOC_STRATEGIES: TOCStrategy[] = [
+  tocFileStrategy,
+  detailPageStrategy,
+  directApiStrategy,
+  metadataStrategy,
+  txtDownloadStrategy,
+  alternateUrlStrategy,
+  kakaoDetailStrategy
+];
+
+export const DEFAULT_TOC_STRATEGY_CONFIG: TOCStrategyConfig[] = TOC_STRATEGIES.map(strategy => ({
+  name: strategy.name,
+  enabled: true
+}));
+
+/**
+ * 전략 이름을 표시용 이름으로 변환
+ */
+export function getTOCStrategyLabel(name: string): string | undefined {
+  return TOC_STRATEGIES.find(strategy => strategy.name === name)?.label;
+}
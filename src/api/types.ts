@@ -49,6 +49,15 @@ export interface ISBNSearchResponse {
   UPDATE_DATE?: string;
 }
 
+export interface SeojiSearchResponse {
+  PAGE_NO: string;
+  TOTAL_COUNT: string;
+  docs: ISBNSearchResponse[];
+  // 인증키 오류 등 요청이 실패하면 docs 대신 오류 코드가 옴
+  errorCode?: string | number;
+  ERR_CODE?: string | number;
+}
+
 export interface Book {
   title: string;
   author: string;
@@ -63,6 +72,7 @@ export interface Book {
   subject?: string;
   summary?: string;
   coverImage?: string;
+  localCover?: string; // 볼트에 저장한 표지 경로 (내려받은 표지 또는 대체 이미지)
   series?: string;
   volume?: string;
   edition?: string;
@@ -71,6 +81,22 @@ export interface Book {
   detailLink?: string;
   controlNo?: string; // 추출된 CONTROL_NO 저장용
 
+  // ISBN 서지정보(seoji) API 추가 필드
+  eaAddCode?: string;
+  form?: string;
+  cip?: boolean;
+  tocUrl?: string;
+  introductionUrl?: string;
+  summaryUrl?: string;
+
+  translators?: string[];
+
+  // 목차 (노트 생성 시 조회)
+  tableOfContents?: string; // 설정한 스타일로 렌더링된 목차
+  tableOfContentsTree?: TableOfContents;
+  tocMethod?: string;
+  tocConfidence?: number;
+
   // 카카오 API 추가 필드
   kakaoUrl?: string;
   kakaoThumbnail?: string;
@@ -82,6 +108,45 @@ export interface Book {
   hasKakaoData?: boolean;
 }
 
+/**
+ * 독서 상태 - 도서 노트 프론트매터의 status/startDate/endDate/rating/progress
+ */
+export type ReadingStatusValue = '읽기 전' | '읽는 중' | '완독';
+
+export interface ReadingStatus {
+  status: ReadingStatusValue;
+  startDate?: string;
+  endDate?: string;
+  rating?: number; // 0.5 단위, 최대 5
+  progress?: number; // 읽은 페이지
+}
+
+/**
+ * 목차 항목 - 부(part) > 장(chapter) > 절(section) 계층, 번호와 쪽수는 제목에서 분리
+ */
+export interface TOCEntry {
+  kind: 'part' | 'chapter' | 'section' | 'item'; // item: 머리말/부록처럼 번호 없는 항목
+  level: number; // 트리 깊이 (0부터)
+  numbering?: string; // 원래 표기 그대로 ("제1장", "1.2", "Part I")
+  title: string;
+  page?: number;
+  children: TOCEntry[];
+}
+
+export interface TableOfContents {
+  entries: TOCEntry[];
+  raw: string;
+}
+
+export interface BookSearchResult {
+  books: Book[];
+  total: number; // 서버가 보고한 전체 결과 수
+  pageNum: number;
+  pageSize: number;
+  clientSorted?: boolean; // 서버가 정렬을 지원하지 않아 현재 페이지 결과만 플러그인에서 정렬한 경우
+  clientFiltered?: boolean; // 발행년도/KDC/매체 필터를 현재 페이지 결과에 플러그인에서 적용한 경우
+}
+
 export interface SearchParams {
   query?: string;
   isbn?: string;
@@ -92,4 +157,10 @@ export interface SearchParams {
   pageSize?: number;
   sort?: 'title' | 'author' | 'publisher' | 'pub_year' | 'relevance';
   order?: 'asc' | 'desc';
+
+  // 클라이언트 필터 (API 미지원 파라미터)
+  yearFrom?: number;
+  yearTo?: number;
+  kdcClass?: string; // KDC 주류 (0-9)
+  media?: 'all' | 'ebook' | 'print';
 }
@@ -1,13 +1,87 @@
-import { Plugin, Notice, TFile, normalizePath, Modal } from 'obsidian';
+import { Plugin, Notice, TFile, TFolder, normalizePath, Modal, WorkspaceLeaf, debounce } from 'obsidian';
 import { KRBookPluginSettings, DEFAULT_SETTINGS } from './settings';
 import { BookSearchModal } from './ui/search-modal';
 import { KRBookSettingTab } from './ui/settings-tab';
 import { Book } from './api/types';
 import { BookNoteTemplate } from './utils/template';
 import { NationalLibraryAPI } from './api/nlk-api';
+import { KakaoAPI } from './api/kakao-api';
+import { BookIntegrationService } from './api/book-integration';
+import { CoverImageService } from './api/cover-service';
+import { TOCPipeline, isConclusiveTOCResult, normalizeTOCStrategyConfig } from './api/toc-pipeline';
+import { TOC_STRATEGIES } from './api/toc-strategies';
+import { parseTableOfContents } from './utils/toc-parser';
+import { renderTableOfContents } from './utils/toc-renderer';
+import { TOCCache } from './api/toc-cache';
+import { TOCCacheModal } from './ui/toc-cache-modal';
+import { TOCPerformanceMonitor } from './api/toc-performance';
+import { TOCHealthView, TOC_HEALTH_VIEW_TYPE } from './ui/toc-health-view';
+import { LibraryView, LIBRARY_VIEW_TYPE } from './ui/library-view';
+import { ReadingStatsView, READING_STATS_VIEW_TYPE } from './ui/reading-stats-view';
+import { ReviewYearSuggestModal } from './ui/review-year-modal';
+import { collectLibraryEntries, isInNoteFolder } from './utils/library';
+import { computeReadingStats, getFinishedYears, renderYearlyReview } from './utils/reading-stats';
+import { computeGoalProgress, formatGoalPace, formatGoalProgress } from './utils/reading-goals';
+import { GOAL_BLOCK_LANGUAGE, renderGoalBlock } from './ui/goal-block';
+import { TemplateSuggestModal } from './ui/template-suggest-modal';
+import { TEMPLATE_FRONTMATTER_KEY, describeTemplateRule, listTemplateFiles, matchTemplateRule } from './utils/note-templates';
+import { DuplicateAction, DuplicateNoteModal } from './ui/duplicate-note-modal';
+import { bookFromNote, findBookNotesByISBN, getNoteBookIds, getNotesInFolder } from './utils/book-notes';
+import {
+  NoteChange,
+  TOC_PLACEHOLDER_PREFIX,
+  TOC_SECTION_HEADING,
+  diffFrontmatter,
+  extractCoverImage,
+  extractLocalCover,
+  extractNoteSection,
+  replaceCoverImage,
+  replaceLocalCover,
+  replaceNoteSection
+} from './utils/note-diff';
+import { MetadataDiffModal } from './ui/metadata-diff-modal';
+import { BulkRefreshModal } from './ui/bulk-refresh-modal';
+import { ISBNImportModal } from './ui/isbn-import-modal';
+import { LibraryImportModal } from './ui/library-import-modal';
+import { BibliographyExportModal } from './ui/bibliography-export-modal';
+import { BookNoteSuggestModal, CitationModal } from './ui/citation-modal';
+import { BookRatingModal, ReadingProgressModal, ReadingStatusSuggestModal } from './ui/reading-status-modals';
+import {
+  READING_FRONTMATTER_KEYS,
+  READING_STATUS_ICONS,
+  applyRating,
+  applyReadingProgress,
+  applyReadingStatus,
+  formatProgress,
+  readReadingStatus,
+  readTotalPages
+} from './utils/reading-status';
+
+export type BookNoteResult = { file: TFile; action: 'created' | 'opened' | 'refreshed' | 'skipped' };
+
+export interface CreateBookNoteOptions {
+  // 같은 ISBN의 노트가 있을 때 묻지 않고 적용할 처리 (skip: 아무것도 하지 않음)
+  duplicateAction?: DuplicateAction | 'skip';
+  // false면 설정과 관계없이 생성한 노트를 열지 않음 (일괄 가져오기용)
+  openAfterCreation?: boolean;
+  // false면 설정과 관계없이 템플릿 선택 창을 띄우지 않고 규칙으로 정함 (일괄 가져오기용)
+  chooseTemplate?: boolean;
+}
+
+// 노트 생성에 쓸 템플릿 (path가 빈 문자열이면 설정의 노트 템플릿)
+interface NoteTemplateSource {
+  path: string;
+  content: string;
+}
+
+// 메타데이터 새로고침 시 덮어쓰지 않는 프론트매터 키 (사용자가 관리하는 값)
+const PRESERVED_FRONTMATTER_KEYS = ['created', 'tags', TEMPLATE_FRONTMATTER_KEY, ...READING_FRONTMATTER_KEYS];
 
 export default class KRBookPlugin extends Plugin {
   settings: KRBookPluginSettings;
+  tocCache: TOCCache;
+  tocMonitor: TOCPerformanceMonitor;
+  private goalStatusBarEl: HTMLElement | null = null;
 
   async onload() {
     console.log('Korean Book Search Plugin loading...');
@@ -29,7 +103,307 @@ export default class KRBookPlugin extends Plugin {
       }
     });
 
+    this.addCommand({
+      id: 'search-book-by-isbn',
+      name: 'ISBN으로 도서 검색',
+      callback: () => {
+        if (!this.settings.apiKey) {
+          new Notice('먼저 설정에서 API 키를 입력해주세요.');
+          return;
+        }
+        const modal = new BookSearchModal(this.app, this);
+        modal.searchType = 'isbn';
+        modal.open();
+      }
+    });
+
+    this.addCommand({
+      id: 'import-isbn-list',
+      name: 'ISBN 목록으로 도서 노트 가져오기',
+      callback: () => {
+        if (!this.settings.apiKey) {
+          new Notice('먼저 설정에서 API 키를 입력해주세요.');
+          return;
+        }
+        new ISBNImportModal(this.app, this).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'import-reading-log',
+      name: '독서 기록 가져오기 (Goodreads/알라딘/CSV)',
+      callback: () => {
+        if (!this.settings.apiKey) {
+          new Notice('먼저 설정에서 API 키를 입력해주세요.');
+          return;
+        }
+        new LibraryImportModal(this.app, this).open();
+      }
+    });
+
+
+    this.registerView(TOC_HEALTH_VIEW_TYPE, (leaf: WorkspaceLeaf) => new TOCHealthView(leaf, this));
+
+    this.addCommand({
+      id: 'open-toc-health-view',
+      name: '목차 추출 상태 보기',
+      callback: () => this.activateTOCHealthView()
+    });
+
+    this.registerView(LIBRARY_VIEW_TYPE, (leaf: WorkspaceLeaf) => new LibraryView(leaf, this));
 
+    this.addCommand({
+      id: 'open-library-view',
+      name: '내 서재 열기',
+      callback: () => this.activateLibraryView()
+    });
+
+    this.registerView(READING_STATS_VIEW_TYPE, (leaf: WorkspaceLeaf) => new ReadingStatsView(leaf, this));
+
+    this.addCommand({
+      id: 'open-reading-stats-view',
+      name: '독서 통계 보기',
+      callback: () => this.activateReadingStatsView()
+    });
+
+    this.addCommand({
+      id: 'export-reading-review',
+      name: '독서 결산 노트 만들기',
+      callback: async () => {
+        const entries = await collectLibraryEntries(this.app, this.settings.noteFolder, { covers: false });
+        const currentYear = new Date().getFullYear();
+        const years = getFinishedYears(entries);
+        if (!years.includes(currentYear)) years.unshift(currentYear);
+        new ReviewYearSuggestModal(this.app, years, year => this.exportReadingReview(year)).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'view-toc-cache',
+      name: '목차 캐시 보기/삭제',
+      callback: () => {
+        new TOCCacheModal(this.app, this).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'invalidate-toc-cache-for-current-note',
+      name: '현재 노트의 목차 캐시 삭제',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        const ids = file ? getNoteBookIds(this.app, file) : null;
+        if (!ids) {
+          return false;
+        }
+
+        if (!checking) {
+          const removed = this.tocCache.invalidate(ids);
+          this.saveSettings();
+          new Notice(removed > 0 ? '이 도서의 목차 캐시를 삭제했습니다.' : '이 도서의 목차 캐시가 없습니다.');
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'refresh-book-metadata',
+      name: '현재 도서 노트 메타데이터 새로고침',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        // 검색 API는 CONTROL_NO로 조회할 수 없어 ISBN이 있는 노트에서만 제공
+        if (!file || !getNoteBookIds(this.app, file)?.isbn) {
+          return false;
+        }
+
+        if (!checking) {
+          this.refreshBookNote(file);
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'bulk-refresh-book-notes',
+      name: '모든 도서 노트 일괄 새로고침',
+      callback: () => {
+        if (!this.settings.apiKey) {
+          new Notice('먼저 설정에서 API 키를 입력해주세요.');
+          return;
+        }
+        new BulkRefreshModal(this.app, this).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'export-bibliography-current-note',
+      name: '현재 도서 노트 참고문헌 내보내기 (BibTeX/RIS/CSL-JSON)',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !bookFromNote(this.app, file)) {
+          return false;
+        }
+
+        if (!checking) {
+          this.openBibliographyExport([file], file.parent?.path || '');
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'export-bibliography-note-folder',
+      name: '노트 폴더 전체 참고문헌 내보내기 (BibTeX/RIS/CSL-JSON)',
+      callback: () => {
+        const folderPath = BookNoteTemplate.normalizeFolderPath(this.settings.noteFolder);
+        this.openBibliographyExport(getNotesInFolder(this.app, folderPath), folderPath);
+      }
+    });
+
+    this.addCommand({
+      id: 'insert-book-citation',
+      name: '도서 인용 삽입',
+      editorCallback: (editor) => {
+        new BookNoteSuggestModal(this.app, this, (file, book) => {
+          new CitationModal(this.app, this, book, editor).open();
+        }).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'set-reading-status',
+      name: '독서 상태 변경 (읽기 전/읽는 중/완독)',
+      checkCallback: (checking: boolean) => {
+        const file = this.getActiveBookNote();
+        if (!file) {
+          return false;
+        }
+
+        if (!checking) {
+          const { status } = readReadingStatus(this.app.metadataCache.getFileCache(file)?.frontmatter);
+          new ReadingStatusSuggestModal(this.app, status, async (next) => {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+              applyReadingStatus(frontmatter, next, window.moment().format('YYYY-MM-DD'));
+            });
+            new Notice(`${READING_STATUS_ICONS[next]} "${file.basename}" - ${next}`);
+          }).open();
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'log-reading-progress',
+      name: '읽은 쪽수 기록',
+      checkCallback: (checking: boolean) => {
+        const file = this.getActiveBookNote();
+        if (!file) {
+          return false;
+        }
+
+        if (!checking) {
+          const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+          const pages = readTotalPages(frontmatter);
+          new ReadingProgressModal(this.app, readReadingStatus(frontmatter).progress, pages, async (page) => {
+            let status = readReadingStatus(frontmatter).status;
+            await this.app.fileManager.processFrontMatter(file, (current) => {
+              status = applyReadingProgress(current, page, window.moment().format('YYYY-MM-DD'));
+            });
+            new Notice(`${READING_STATUS_ICONS[status]} ${formatProgress(pages ? Math.min(page, pages) : page, pages)}`);
+          }).open();
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'rate-book',
+      name: '도서 평점 매기기',
+      checkCallback: (checking: boolean) => {
+        const file = this.getActiveBookNote();
+        if (!file) {
+          return false;
+        }
+
+        if (!checking) {
+          const { rating } = readReadingStatus(this.app.metadataCache.getFileCache(file)?.frontmatter);
+          new BookRatingModal(this.app, rating, async (next) => {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+              applyRating(frontmatter, next);
+            });
+            new Notice(next > 0 ? `⭐ "${file.basename}" 평점 ${next}` : `"${file.basename}" 평점을 지웠습니다.`);
+          }).open();
+        }
+        return true;
+      }
+    });
+
+    // 파일 메뉴에 메타데이터 새로고침/참고문헌 내보내기 추가
+    this.registerEvent(
+      this.app.workspace.on('file-menu', (menu, file) => {
+        if (file instanceof TFolder) {
+          menu.addItem(item => item
+            .setTitle('참고문헌 내보내기')
+            .setIcon('quote')
+            .onClick(() => this.openBibliographyExport(getNotesInFolder(this.app, file.path), file.path)));
+          return;
+        }
+        const ids = file instanceof TFile ? getNoteBookIds(this.app, file) : null;
+        if (!(file instanceof TFile) || !ids) {
+          return;
+        }
+        if (ids.isbn) {
+          menu.addItem(item => item
+            .setTitle('도서 메타데이터 새로고침')
+            .setIcon('refresh-cw')
+            .onClick(() => this.refreshBookNote(file)));
+        }
+        menu.addItem(item => item
+          .setTitle('참고문헌 내보내기')
+          .setIcon('quote')
+          .onClick(() => this.openBibliographyExport([file], file.parent?.path || '')));
+      })
+    );
+
+    // 여러 파일을 선택했을 때의 메뉴
+    this.registerEvent(
+      this.app.workspace.on('files-menu', (menu, files) => {
+        const notes = files.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+        if (notes.length === 0) {
+          return;
+        }
+        menu.addItem(item => item
+          .setTitle(`참고문헌 내보내기 (${notes.length}개)`)
+          .setIcon('quote')
+          .onClick(() => this.openBibliographyExport(notes, notes[0].parent?.path || '')));
+      })
+    );
+
+    // 독서 목표 코드 블록과 상태 표시줄
+    this.registerMarkdownCodeBlockProcessor(GOAL_BLOCK_LANGUAGE, (source, el) => renderGoalBlock(this, source, el));
+
+    this.addCommand({
+      id: 'insert-reading-goal-block',
+      name: '독서 목표 블록 삽입',
+      editorCallback: (editor) => {
+        editor.replaceSelection(`\`\`\`${GOAL_BLOCK_LANGUAGE}\n\`\`\`\n`);
+      }
+    });
+
+    this.goalStatusBarEl = this.addStatusBarItem();
+    this.goalStatusBarEl.addClass('kr-book-goal-status');
+    this.goalStatusBarEl.addEventListener('click', () => this.activateReadingStatsView());
+    const scheduleGoalUpdate = debounce(() => this.updateGoalStatusBar(), 2000, true);
+    // 완독 노트를 지우거나 옮겨도 달성도가 바뀌므로 삭제/이름 변경도 감지
+    this.registerEvent(this.app.metadataCache.on('changed', file => {
+      if (isInNoteFolder(file.path, this.settings.noteFolder)) scheduleGoalUpdate();
+    }));
+    this.registerEvent(this.app.vault.on('delete', file => {
+      if (isInNoteFolder(file.path, this.settings.noteFolder)) scheduleGoalUpdate();
+    }));
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (isInNoteFolder(file.path, this.settings.noteFolder) || isInNoteFolder(oldPath, this.settings.noteFolder)) scheduleGoalUpdate();
+    }));
+    this.app.workspace.onLayoutReady(() => this.updateGoalStatusBar());
 
     // 설정 탭 추가
     this.addSettingTab(new KRBookSettingTab(this.app, this));
@@ -42,6 +416,7 @@ export default class KRBookPlugin extends Plugin {
       }
       new BookSearchModal(this.app, this).open();
     });
+    this.addRibbonIcon('library', '내 서재', () => this.activateLibraryView());
 
     console.log('Korean Book Search Plugin loaded');
   }
@@ -51,39 +426,502 @@ export default class KRBookPlugin extends Plugin {
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // 플러그인 데이터 = 설정 + 목차 캐시 + 목차 추출 기록
+    const { tocCache, tocMetrics, ...settings } = (await this.loadData()) || {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+    this.tocCache = new TOCCache(tocCache, () => ({
+      foundTTLDays: this.settings.tocCacheTTLDays,
+      emptyTTLDays: this.settings.tocCacheEmptyTTLDays
+    }));
+
+    this.tocMonitor = new TOCPerformanceMonitor();
+    if (tocMetrics) {
+      this.tocMonitor.importMetrics(JSON.stringify(tocMetrics));
+    }
+    this.settings.tocStrategies = normalizeTOCStrategyConfig(this.settings.tocStrategies, TOC_STRATEGIES);
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.saveData({
+      ...this.settings,
+      tocCache: this.tocCache.toJSON(),
+      tocMetrics: this.tocMonitor.getMetrics()
+    });
+  }
+
+  /**
+   * 목차 추출 상태 뷰 열기 (이미 열려 있으면 해당 탭으로 이동)
+   */
+  async activateTOCHealthView() {
+    let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(TOC_HEALTH_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = this.app.workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: TOC_HEALTH_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * 서재 뷰 열기 (이미 열려 있으면 해당 탭으로 이동)
+   */
+  async activateLibraryView() {
+    let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(LIBRARY_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = this.app.workspace.getLeaf('tab');
+      await leaf.setViewState({ type: LIBRARY_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * 독서 통계 뷰 열기 (이미 열려 있으면 해당 탭으로 이동)
+   */
+  async activateReadingStatsView() {
+    let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(READING_STATS_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = this.app.workspace.getLeaf('tab');
+      await leaf.setViewState({ type: READING_STATS_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * 독서 결산 노트 생성 후 열기 (같은 이름의 노트가 있으면 작성 시각을 붙여 새로 만듦)
+   */
+  async exportReadingReview(year: number | null) {
+    const entries = await collectLibraryEntries(this.app, this.settings.noteFolder, { covers: false });
+    const stats = computeReadingStats(entries, year);
+    const content = renderYearlyReview(stats, window.moment().format('YYYY-MM-DD'));
+
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.settings.noteFolder);
+    const baseName = year === null ? '전체 독서 결산' : `${year}년 독서 결산`;
+    let path = normalizePath(folderPath ? `${folderPath}/${baseName}.md` : `${baseName}.md`);
+    if (this.app.vault.getAbstractFileByPath(path)) {
+      const stamped = `${baseName} ${window.moment().format('YYYY-MM-DD HHmmss')}.md`;
+      path = normalizePath(folderPath ? `${folderPath}/${stamped}` : stamped);
+    }
+
+    try {
+      const file = await this.app.vault.create(path, content);
+      console.log(`📈 [Stats] Exported review: ${file.path} (${stats.books} books)`);
+      await this.app.workspace.getLeaf().openFile(file);
+      new Notice(`📈 ${baseName} 노트를 만들었습니다. (완독 ${stats.books}권)`);
+    } catch (error) {
+      console.error('❌ [Stats] Failed to export review:', error);
+      new Notice('❌ 독서 결산 노트를 만들지 못했습니다.');
+    }
   }
 
   /**
-   * 도서 노트 생성
+   * 상태 표시줄의 독서 목표 달성도 갱신 (연간 목표 우선, 목표가 없거나 끈 경우 숨김)
    */
-  async createBookNote(book: Book): Promise<TFile> {
+  async updateGoalStatusBar() {
+    const el = this.goalStatusBarEl;
+    if (!el) return;
+
+    const { yearlyGoal, monthlyGoal, showGoalInStatusBar } = this.settings;
+    const period = yearlyGoal.target > 0 ? 'year' : monthlyGoal.target > 0 ? 'month' : null;
+    if (!showGoalInStatusBar || !period) {
+      el.hide();
+      return;
+    }
+
+    const entries = await collectLibraryEntries(this.app, this.settings.noteFolder, { covers: false });
+    const progress = computeGoalProgress(entries, period === 'year' ? yearlyGoal : monthlyGoal, period, new Date());
+    el.setText(`🎯 ${formatGoalProgress(progress)}`);
+    el.setAttr('aria-label', `${formatGoalPace(progress)} - 클릭하면 독서 통계를 엽니다`);
+    el.setAttr('data-tooltip-position', 'top');
+    el.show();
+  }
+
+  /**
+   * 카카오 정보 보강 사용 여부 (키가 있어야 동작)
+   */
+  isKakaoEnrichmentEnabled(): boolean {
+    return this.settings.enableKakaoEnrichment && !!this.settings.kakaoApiKey;
+  }
+
+  /**
+   * 현재 열린 노트가 도서 노트면 반환
+   */
+  private getActiveBookNote(): TFile | null {
+    const file = this.app.workspace.getActiveFile();
+    return file && (getNoteBookIds(this.app, file) || bookFromNote(this.app, file)) ? file : null;
+  }
+
+  /**
+   * 참고문헌 내보내기 모달 열기 (저장 파일은 targetFolder에 생성)
+   */
+  private openBibliographyExport(files: TFile[], targetFolder: string) {
+    new BibliographyExportModal(this.app, files, targetFolder === '/' ? '' : targetFolder).open();
+  }
+
+  /**
+   * 현재 설정의 카카오 키로 통합 서비스 생성
+   */
+  createIntegrationService(): BookIntegrationService {
+    return new BookIntegrationService(new KakaoAPI(this.settings.kakaoApiKey));
+  }
+
+  /**
+   * 도서 노트 생성 - 같은 ISBN의 노트가 있으면 열기/새로고침/사본 중 선택 (취소하면 null)
+   */
+  async createBookNote(book: Book, options: CreateBookNoteOptions = {}): Promise<BookNoteResult | null> {
     console.log(`📚 [Note] Creating note for: ${book.title}`);
-    return await this.createNoteFile(book);
+
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.settings.noteFolder);
+    const [existing] = findBookNotesByISBN(this.app, folderPath, book.isbn);
+
+    if (existing) {
+      const action = options.duplicateAction ?? await new DuplicateNoteModal(this.app, book, existing).choose();
+      console.log(`📚 [Note] Existing note found: ${existing.path} (action: ${action})`);
+
+      if (!action) {
+        return null;
+      }
+      if (action === 'skip') {
+        return { file: existing, action: 'skipped' };
+      }
+      if (action === 'open') {
+        await this.app.workspace.getLeaf().openFile(existing);
+        return { file: existing, action: 'opened' };
+      }
+      if (action === 'refresh') {
+        await this.refreshNoteMetadata(existing, book);
+        return { file: existing, action: 'refreshed' };
+      }
+    }
+
+    if (this.isKakaoEnrichmentEnabled() && !book.hasKakaoData) {
+      book = await this.createIntegrationService().enrichBook(book);
+    }
+
+    const template = await this.resolveNoteTemplate(book, options.chooseTemplate ?? this.settings.chooseTemplateOnCreate);
+    if (!template) {
+      return null;
+    }
+
+    if (this.settings.fetchTableOfContents && !book.tableOfContents) {
+      await this.attachTableOfContents(book);
+    }
+
+    if (this.settings.downloadCovers && !book.localCover) {
+      await this.attachLocalCover(book);
+    }
+
+    const openAfterCreation = options.openAfterCreation ?? this.settings.openNoteAfterCreation;
+    return { file: await this.createNoteFile(book, template, openAfterCreation), action: 'created' };
   }
 
   /**
-   * 실제 노트 파일 생성
+   * 도서에 쓸 노트 템플릿 결정 - 처음 맞는 규칙, 없으면 기본 템플릿 (선택 창에서 취소하면 null)
+   */
+  private async resolveNoteTemplate(book: Book, choose: boolean): Promise<NoteTemplateSource | null> {
+    const rule = matchTemplateRule(this.settings.templateRules, book);
+    let path = rule ? rule.template : this.settings.defaultTemplate;
+
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.settings.templateFolder);
+    const templates = listTemplateFiles(this.app, folderPath).map(file => file.path);
+    if (choose && templates.length > 0) {
+      const reason = rule ? `${describeTemplateRule(rule)} 규칙` : '기본 템플릿';
+      const chosen = await new TemplateSuggestModal(this.app, templates, path, reason).choose();
+      if (chosen === null) {
+        return null;
+      }
+      path = chosen;
+    }
+
+    console.log(`📚 [Note] Template: ${path || '(settings)'}${rule ? ` (rule: ${describeTemplateRule(rule)})` : ''}`);
+    return this.loadNoteTemplate(path);
+  }
+
+  /**
+   * 템플릿 파일 읽기 (빈 경로는 설정의 노트 템플릿)
    */
-  private async createNoteFile(book: Book): Promise<TFile> {
+  private async loadNoteTemplate(path: string): Promise<NoteTemplateSource> {
+    if (!path) {
+      return { path: '', content: this.settings.noteTemplate };
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new Error(`템플릿 파일을 찾을 수 없습니다: ${path}`);
+    }
+    return { path, content: await this.app.vault.cachedRead(file) };
+  }
+
+  /**
+   * 기존 노트의 프론트매터를 최신 도서 정보로 갱신 (본문과 사용자 관리 키는 유지)
+   */
+  async refreshNoteMetadata(file: TFile, book: Book): Promise<void> {
+    if (this.isKakaoEnrichmentEnabled() && !book.hasKakaoData) {
+      book = await this.createIntegrationService().enrichBook(book);
+    }
 
-    // 날짜 포맷팅
+    const changes = await this.buildNoteChanges(file, book);
+    await this.applyNoteChanges(file, changes.filter(change => change.kind === 'frontmatter'));
+
+    console.log(`🔄 [Note] Refreshed metadata: ${file.path}`);
+  }
+
+  /**
+   * 도서 노트 메타데이터 새로고침 - 최신 정보를 가져와 항목별 차이를 보여주고 선택한 변경만 적용
+   */
+  async refreshBookNote(file: TFile): Promise<void> {
+    if (!this.settings.apiKey) {
+      new Notice('먼저 설정에서 API 키를 입력해주세요.');
+      return;
+    }
+
+    // 검색 API는 CONTROL_NO로 조회할 수 없어 ISBN이 있는 노트만 새로고침
+    if (!getNoteBookIds(this.app, file)?.isbn) {
+      new Notice('❌ 이 노트에는 ISBN이 없어 메타데이터를 새로고침할 수 없습니다. 프론트매터에 isbn을 추가해 주세요.');
+      return;
+    }
+
+    const notice = new Notice('🔄 최신 도서 정보를 가져오는 중...', 0);
+    let changes: NoteChange[];
+    try {
+      const book = await this.fetchBookForNote(file);
+      if (!book) {
+        notice.hide();
+        new Notice('❌ 국립중앙도서관에서 이 도서를 찾지 못했습니다.');
+        return;
+      }
+      changes = await this.buildNoteChanges(file, book);
+    } catch (error) {
+      notice.hide();
+      console.error('❌ [Refresh] Failed to fetch book:', error);
+      new Notice('❌ 도서 정보 조회 실패: ' + error.message);
+      return;
+    }
+    notice.hide();
+
+    if (changes.length === 0) {
+      new Notice('✅ 이미 최신 정보입니다.');
+      return;
+    }
+
+    const accepted = await new MetadataDiffModal(this.app, file.basename, changes).choose();
+    if (!accepted || accepted.length === 0) {
+      return;
+    }
+
+    await this.applyNoteChanges(file, accepted);
+    new Notice(`✅ ${accepted.length}개 항목을 갱신했습니다.`);
+  }
+
+  /**
+   * 노트 프론트매터의 ISBN으로 최신 도서 정보 조회 (카카오 보강, 목차 포함, ISBN이 없으면 null)
+   */
+  async fetchBookForNote(file: TFile): Promise<Book | null> {
+    const ids = getNoteBookIds(this.app, file);
+    if (!ids?.isbn) {
+      return null;
+    }
+
+    const api = new NationalLibraryAPI(this.settings.apiKey);
+    let book = await api.lookupByISBN(ids.isbn);
+    if (!book) {
+      return null;
+    }
+
+    if (this.isKakaoEnrichmentEnabled()) {
+      book = await this.createIntegrationService().enrichBook(book);
+    }
+    if (this.settings.fetchTableOfContents) {
+      await this.attachTableOfContents(book);
+    }
+    return book;
+  }
+
+  /**
+   * 노트의 현재 프론트매터/목차/표지와 새 도서 정보의 차이 계산
+   */
+  async buildNoteChanges(file: TFile, book: Book): Promise<NoteChange[]> {
+    this.formatBookForNote(book);
+
+    // 노트를 만든 템플릿 파일이 남아 있으면 그 템플릿으로, 없으면 설정의 노트 템플릿으로 비교
+    const current = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const recorded = current?.[TEMPLATE_FRONTMATTER_KEY];
+    const templatePath = typeof recorded === 'string' && this.app.vault.getAbstractFileByPath(recorded) instanceof TFile ? recorded : '';
+    const template = await this.loadNoteTemplate(templatePath);
+
+    const fields = BookNoteTemplate.renderFrontmatter(template.content, book);
+    if (book.tableOfContentsTree) {
+      fields.tocMethod = book.tocMethod;
+      fields.tocConfidence = book.tocConfidence;
+    }
+
+    const changes = diffFrontmatter(current, fields, PRESERVED_FRONTMATTER_KEYS);
+
+    const content = await this.app.vault.read(file);
+
+    // 표지는 본문에 표지 임베드가 있을 때만 비교
+    const currentCover = extractCoverImage(content);
+    if (currentCover !== null && book.coverImage && currentCover !== book.coverImage) {
+      changes.push({ kind: 'cover', key: 'coverImage', label: '표지', oldValue: currentCover, newValue: book.coverImage });
+    }
+
+    // 볼트 표지는 대체 표지이거나 파일이 없어졌는데 이제 원격 표지가 있으면 내려받기 제안
+    const localCover = extractLocalCover(content);
+    if (localCover !== null && book.coverImage &&
+      (localCover.endsWith('-placeholder.svg') || !this.app.vault.getAbstractFileByPath(localCover))) {
+      changes.push({ kind: 'cover', key: 'localCover', label: '표지', oldValue: localCover, newValue: book.coverImage, value: book });
+    }
+
+    // 목차는 새로 찾은 경우에만 본문 섹션과 비교
+    if (book.tableOfContentsTree && book.tableOfContents) {
+      const currentTOC = extractNoteSection(content, TOC_SECTION_HEADING) || '';
+      if (currentTOC !== book.tableOfContents.trim()) {
+        changes.push({
+          kind: 'section',
+          key: TOC_SECTION_HEADING,
+          label: '목차',
+          oldValue: currentTOC,
+          newValue: book.tableOfContents.trim()
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * 선택한 변경 적용 - 프론트매터는 processFrontMatter로, 본문은 목차 섹션/표지 주소만 교체
+   */
+  async applyNoteChanges(file: TFile, changes: NoteChange[]): Promise<void> {
+    const frontmatterChanges = changes.filter(change => change.kind === 'frontmatter');
+    if (frontmatterChanges.length > 0) {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        frontmatterChanges.forEach(change => {
+          frontmatter[change.key] = change.value;
+        });
+      });
+    }
+
+    for (const change of changes.filter(change => change.kind !== 'frontmatter')) {
+      if (change.key === 'localCover') {
+        const path = await this.downloadCoverForNote(change.value as Book);
+        if (path) {
+          await this.app.vault.process(file, content => replaceLocalCover(content, path));
+        }
+        continue;
+      }
+
+      await this.app.vault.process(file, content => change.kind === 'cover'
+        ? replaceCoverImage(content, change.newValue)
+        : replaceNoteSection(content, change.key, change.newValue));
+    }
+  }
+
+  /**
+   * 노트에 쓰기 전 날짜/가격 표기 정리
+   */
+  private formatBookForNote(book: Book) {
     if (book.publishDate) {
       book.publishDate = BookNoteTemplate.formatDate(book.publishDate);
     }
-    
-    // 가격 포맷팅
     if (book.price) {
       book.price = BookNoteTemplate.formatPrice(book.price);
     }
+  }
+
+  /**
+   * 목차를 조회해 도서 정보에 추가 (모든 방법이 실패하면 안내 문구 사용)
+   */
+  private async attachTableOfContents(book: Book): Promise<void> {
+    const cached = this.settings.enableTOCCache ? this.tocCache.get(book) : null;
+    let result: { success: boolean; content?: string; method: string; confidence: number };
+
+    if (cached) {
+      console.log(`🗂️ [TOC] Cache hit (${cached.status}): ${cached.key}`);
+      result = { success: cached.status === 'found', content: cached.content, method: cached.method, confidence: cached.confidence };
+    } else {
+      const pipeline = new TOCPipeline(this.settings.apiKey, TOC_STRATEGIES);
+      const pipelineResult = await pipeline.run(book, this.settings.tocStrategies);
+      result = pipelineResult;
+
+      pipelineResult.attempts.forEach(attempt => {
+        this.tocMonitor.recordResult(book.title, attempt.method, attempt.success, attempt.confidence, attempt.responseTime, attempt.thrown);
+      });
+      // 모든 시도가 예외로 끝났으면(오프라인 등) 다음에 다시 시도하도록 캐시하지 않음
+      if (this.settings.enableTOCCache && isConclusiveTOCResult(pipelineResult)) {
+        this.tocCache.set(book, result);
+      } else if (this.settings.enableTOCCache) {
+        console.log(`🗂️ [TOC] Not caching - every attempt failed with an error: ${book.title}`);
+      }
+      await this.saveSettings();
+      this.refreshTOCHealthViews();
+    }
+
+    book.tocMethod = result.method;
+    book.tocConfidence = result.confidence;
+
+    if (result.success && result.content) {
+      book.tableOfContentsTree = parseTableOfContents(result.content);
+      book.tableOfContents = renderTableOfContents(book.tableOfContentsTree, this.settings.tocRenderStyle);
+    } else {
+      book.tableOfContents = `${TOC_PLACEHOLDER_PREFIX} [국립중앙도서관 상세정보](${BookNoteTemplate.generateDetailLink(book)})에서 확인해 주세요.`;
+    }
+  }
+
+  /**
+   * 표지를 첨부 폴더에 내려받아 도서 정보에 추가 (표지가 없거나 받지 못하면 대체 이미지 생성)
+   */
+  private async attachLocalCover(book: Book): Promise<void> {
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.settings.coverFolder);
+    const coverService = new CoverImageService(this.app);
+
+    try {
+      book.localCover = await coverService.downloadCover(book, folderPath)
+        || await coverService.createPlaceholder(book, folderPath);
+    } catch (error) {
+      // 저장에 실패해도 노트는 원격 표지 주소로 생성
+      console.error('❌ [Cover] Failed to save cover:', error);
+    }
+  }
+
+  /**
+   * 메타데이터 새로고침용 표지 내려받기 (받지 못하면 null, 기존 임베드는 그대로 둠)
+   */
+  private async downloadCoverForNote(book: Book): Promise<string | null> {
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.settings.coverFolder);
+    try {
+      return await new CoverImageService(this.app).downloadCover(book, folderPath);
+    } catch (error) {
+      console.error('❌ [Cover] Failed to save cover:', error);
+      return null;
+    }
+  }
+
+  private refreshTOCHealthViews() {
+    this.app.workspace.getLeavesOfType(TOC_HEALTH_VIEW_TYPE).forEach(leaf => {
+      if (leaf.view instanceof TOCHealthView) {
+        leaf.view.render();
+      }
+    });
+  }
+
+  /**
+   * 실제 노트 파일 생성
+   */
+  private async createNoteFile(book: Book, template: NoteTemplateSource, openAfterCreation: boolean): Promise<TFile> {
+
+    // 날짜/가격 포맷팅
+    this.formatBookForNote(book);
 
     // 노트 내용 생성
-    const noteContent = BookNoteTemplate.render(this.settings.noteTemplate, book);
-    
+    const noteContent = BookNoteTemplate.render(template.content, book);
+
+    // 잘못된 YAML로 노트가 만들어지지 않도록 쓰기 전에 검사
+    const yamlError = BookNoteTemplate.validateFrontmatter(noteContent);
+    if (yamlError) {
+      console.error(`❌ [Note] ${yamlError}`);
+      throw new Error(yamlError);
+    }
+
     // 파일명 생성
     const fileName = BookNoteTemplate.generateFileName(
       this.settings.fileNameTemplate, 
@@ -117,9 +955,22 @@ export default class KRBookPlugin extends Plugin {
     
     // 노트 생성
     const file = await this.app.vault.create(finalPath, noteContent);
+
+    // 사용한 템플릿 파일, 목차 추출 방법과 신뢰도 기록
+    if (template.path || book.tocMethod) {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        if (template.path) {
+          frontmatter[TEMPLATE_FRONTMATTER_KEY] = template.path;
+        }
+        if (book.tocMethod) {
+          frontmatter.tocMethod = book.tocMethod;
+          frontmatter.tocConfidence = book.tocConfidence ?? 0;
+        }
+      });
+    }
     
     // 노트 열기 (설정에 따라)
-    if (this.settings.openNoteAfterCreation) {
+    if (openAfterCreation) {
       const leaf = this.app.workspace.getLeaf();
       await leaf.openFile(file);
     }
@@ -1,34 +1,87 @@
+import { TOCStrategyConfig } from './api/toc-pipeline';
+import { DEFAULT_TOC_STRATEGY_CONFIG } from './api/toc-strategies';
+import { TOCRenderStyle } from './utils/toc-renderer';
+import { CitationStyle } from './utils/citation';
+import { LibraryLayout, LibrarySortKey, LibrarySortOrder } from './utils/library';
+import { ReadingGoal } from './utils/reading-goals';
+import { TemplateRule } from './utils/note-templates';
+
 export interface KRBookPluginSettings {
   apiKey: string;
+  kakaoApiKey: string;
+  enableKakaoEnrichment: boolean;
+  fetchTableOfContents: boolean;
+  tocStrategies: TOCStrategyConfig[];
+  tocRenderStyle: TOCRenderStyle;
+  enableTOCCache: boolean;
+  tocCacheTTLDays: number; // 찾은 목차 보관 기간
+  tocCacheEmptyTTLDays: number; // 목차 없음 결과 보관 기간
+  downloadCovers: boolean;
+  coverFolder: string;
   noteFolder: string;
   noteTemplate: string;
+  templateFolder: string; // 템플릿 파일 폴더 (비우면 noteTemplate만 사용)
+  defaultTemplate: string; // 규칙에 맞지 않을 때 쓸 템플릿 파일 (비우면 noteTemplate)
+  templateRules: TemplateRule[];
+  chooseTemplateOnCreate: boolean;
   fileNameTemplate: string;
   autoCreateFolder: boolean;
   openNoteAfterCreation: boolean;
   searchResultLimit: number;
+  citationStyle: CitationStyle;
+  libraryLayout: LibraryLayout;
+  librarySortKey: LibrarySortKey;
+  librarySortOrder: LibrarySortOrder;
+  yearlyGoal: ReadingGoal; // 목표량이 0이면 사용 안 함
+  monthlyGoal: ReadingGoal;
+  showGoalInStatusBar: boolean;
 }
 
 export const DEFAULT_SETTINGS: KRBookPluginSettings = {
   apiKey: '',
+  kakaoApiKey: '',
+  enableKakaoEnrichment: true,
+  fetchTableOfContents: true,
+  tocStrategies: DEFAULT_TOC_STRATEGY_CONFIG,
+  tocRenderStyle: 'list',
+  enableTOCCache: true,
+  tocCacheTTLDays: 90,
+  tocCacheEmptyTTLDays: 7,
+  downloadCovers: false,
+  coverFolder: 'Books/covers',
   noteFolder: 'Books',
   noteTemplate: `---
 title: "{{title}}"
 author: "{{author}}"
+authors: {{authors}}
+translators: {{translators}}
 publisher: "{{publisher}}"
 publishDate: "{{publishDate}}"
 isbn: "{{isbn}}"
+controlNo: "{{controlNo}}"
 pages: {{pages}}
 price: "{{price}}"
 category: "{{subject}}"
-tags: [book, {{#if ebook}}ebook{{else}}physical{{/if}}]
+kdc: "{{kdc}}"
+tags:
+  - book
+  - {{#if ebook}}ebook{{else}}physical{{/if}}
+status: 읽기 전
+startDate:
+endDate:
+rating:
+progress: 0
 created: {{date}}
 ---
 
 # {{title}}
 
+{{coverEmbed}}
+
 ## 📖 도서 정보
 
 - **저자**: {{author}}
+{{#if translators}}- **역자**: {{translators}}{{/if}}
 - **출판사**: {{publisher}}
 - **출판일**: {{publishDate}}
 - **ISBN**: {{isbn}}
@@ -50,15 +103,32 @@ created: {{date}}
 {{summary}}
 {{/if}}
 
+{{#if tableOfContents}}
+## 📑 목차
+{{tableOfContents}}
+{{/if}}
+
 ## 🗒️ 메모
 
 ## 💭 인용구
 
 ## 🔗 관련 링크
 {{#if detailLink}}- [국립중앙도서관 상세정보]({{detailLink}}){{/if}}
+{{#if kakaoUrl}}- [카카오 도서 정보]({{kakaoUrl}}){{/if}}
 `,
+  templateFolder: '',
+  defaultTemplate: '',
+  templateRules: [],
+  chooseTemplateOnCreate: false,
   fileNameTemplate: '{{title}} - {{author}}',
   autoCreateFolder: true,
   openNoteAfterCreation: true,
-  searchResultLimit: 20
+  searchResultLimit: 20,
+  citationStyle: 'apa',
+  libraryLayout: 'grid',
+  librarySortKey: 'created',
+  librarySortOrder: 'desc',
+  yearlyGoal: { target: 0, unit: 'books' },
+  monthlyGoal: { target: 0, unit: 'books' },
+  showGoalInStatusBar: true
 };
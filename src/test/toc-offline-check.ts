@@ -0,0 +1,75 @@
+/**
+ * 오프라인 목차 추출 점검 - 네트워크 없이 요청 실패와 "목차 없음"이 구분되는지 확인
+ * 모든 요청이 실패하면 전략이 예외를 던져야 파이프라인이 결과를 캐시하지 않음
+ */
+
+import { Book } from '../api/types';
+import { TOCStrategyContext } from '../api/toc-pipeline';
+import { TOC_STRATEGIES } from '../api/toc-strategies';
+
+// URL을 여러 개 시도하는 전략
+const MULTI_URL_STRATEGIES = ['nlk-direct-api', 'nlk-txt-download', 'nlk-alternate-urls'];
+
+const TEST_BOOK = { title: '코스모스', author: '칼 세이건', isbn: '9788983711892', controlNo: 'CNTS-00000000001' } as Book;
+
+/**
+ * 모든 요청이 실패하는 컨텍스트
+ */
+function createOfflineContext(): TOCStrategyContext {
+  const fail = async (): Promise<never> => {
+    throw new Error('오프라인');
+  };
+  return {
+    apiKey: 'offline',
+    session: { navigateToBookDetail: async () => 'offline', makeAuthenticatedRequest: fail } as unknown as TOCStrategyContext['session'],
+    request: fail,
+    getDetailPageHTML: fail
+  };
+}
+
+/**
+ * 응답은 오지만 목차가 없는 컨텍스트
+ */
+function createEmptyContext(): TOCStrategyContext {
+  return {
+    apiKey: 'empty',
+    session: {
+      navigateToBookDetail: async () => 'empty',
+      makeAuthenticatedRequest: async () => ({ status: 200, text: '목차 정보가 없습니다.' })
+    } as unknown as TOCStrategyContext['session'],
+    request: async () => '<html><body>목차 정보가 없습니다.</body></html>',
+    getDetailPageHTML: async () => '<html></html>'
+  };
+}
+
+async function main(): Promise<void> {
+  let failures = 0;
+
+  for (const name of MULTI_URL_STRATEGIES) {
+    const strategy = TOC_STRATEGIES.find(entry => entry.name === name)!;
+
+    const offline = await strategy.extract(TEST_BOOK, createOfflineContext()).then(() => false, () => true);
+    const empty = await strategy.extract(TEST_BOOK, createEmptyContext()).then(toc => toc === null, () => false);
+
+    console.log(`${offline ? '✅' : '❌'} ${name}: 모든 요청 실패 시 예외`);
+    console.log(`${empty ? '✅' : '❌'} ${name}: 목차 없는 응답이면 null`);
+    if (!offline) failures++;
+    if (!empty) failures++;
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures}개 항목 실패`);
+    process.exit(1);
+  }
+  console.log('🎉 오프라인 점검 통과');
+}
+
+// 스크립트 실행
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ 점검 실행 중 오류 발생:', error);
+    process.exit(1);
+  });
+}
+
+export { main as runOfflineCheck };
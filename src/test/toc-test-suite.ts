@@ -6,6 +6,8 @@
 import { NationalLibraryAPI } from '../api/nlk-api';
 import { Book, SearchParams } from '../api/types';
 import { ErrorHandler, ErrorContext } from '../utils/error-handler';
+import { TOCPipeline } from '../api/toc-pipeline';
+import { TOC_STRATEGIES } from '../api/toc-strategies';
 
 export interface TestBook {
   title: string;
@@ -38,6 +40,7 @@ export interface TestSummary {
 
 export class TOCTestSuite {
   private api: NationalLibraryAPI;
+  private pipeline: TOCPipeline;
   private testBooks: TestBook[] = [
     // 일반 도서 (목차 있을 가능성 높음)
     {
@@ -130,6 +133,7 @@ export class TOCTestSuite {
 
   constructor(apiKey: string) {
     this.api = new NationalLibraryAPI(apiKey);
+    this.pipeline = new TOCPipeline(apiKey, TOC_STRATEGIES);
   }
 
   /**
@@ -180,7 +184,7 @@ export class TOCTestSuite {
 
     try {
       // 1단계: 도서 검색
-      const searchResults = await this.api.searchBooks({
+      const { books: searchResults } = await this.api.searchBooks({
         query: testBook.title,
         pageNum: 1,
         pageSize: 10
@@ -211,8 +215,7 @@ export class TOCTestSuite {
       console.log(`   📚 도서 정보: ${targetBook.title} - ${targetBook.author || '저자 불명'}`);
       console.log(`   🔢 Control No: ${targetBook.controlNo || '없음'}, ISBN: ${targetBook.isbn || '없음'}`);
 
-      // 목차 추출 기능이 제거되어 테스트 스킵
-      const tocResult = { success: false, content: '', error: 'TOC functionality removed', method: 'disabled' };
+      const tocResult = await this.pipeline.run(targetBook);
 
       const responseTime = Date.now() - startTime;
 
@@ -240,7 +243,7 @@ export class TOCTestSuite {
           userMessage: ErrorHandler.generateTOCFailureMessage(
             targetBook.title,
             [tocResult.error || '추출 실패'],
-            [tocResult.method],
+            tocResult.attempts.map(attempt => attempt.method),
             responseTime
           )
         };
@@ -0,0 +1,83 @@
+import { App, ButtonComponent, Modal, Notice, Setting, TFile, TextAreaComponent, normalizePath } from 'obsidian';
+import { Book } from '../api/types';
+import { bookFromNote } from '../utils/book-notes';
+import { BIBLIOGRAPHY_FORMATS, BibliographyFormat, exportBibliography } from '../utils/bibliography';
+
+/**
+ * 도서 노트를 BibTeX/RIS/CSL-JSON으로 내보내는 모달 (미리보기, 복사, 파일 저장)
+ */
+export class BibliographyExportModal extends Modal {
+  private books: Book[];
+  private format: BibliographyFormat = 'bibtex';
+
+  constructor(app: App, files: TFile[], private targetFolder: string) {
+    super(app);
+    this.books = files
+      .map(file => bookFromNote(app, file))
+      .filter((book): book is Book => book !== null);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-bibliography-modal');
+
+    contentEl.createEl('h2', { text: '📚 참고문헌 내보내기' });
+
+    if (this.books.length === 0) {
+      contentEl.createEl('p', { text: '내보낼 도서 노트가 없습니다. 프론트매터에 title과 isbn 또는 author가 있는 노트만 내보낼 수 있습니다.' });
+      return;
+    }
+
+    contentEl.createEl('p', { text: `도서 ${this.books.length}권`, cls: 'setting-item-description' });
+
+    let preview: TextAreaComponent;
+    new Setting(contentEl)
+      .setName('형식')
+      .addDropdown(dropdown => {
+        (Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).forEach(format =>
+          dropdown.addOption(format, BIBLIOGRAPHY_FORMATS[format].label));
+        dropdown
+          .setValue(this.format)
+          .onChange(value => {
+            this.format = value as BibliographyFormat;
+            preview.setValue(this.render());
+          });
+      });
+
+    preview = new TextAreaComponent(contentEl).setValue(this.render());
+    preview.inputEl.addClass('bibliography-preview');
+    preview.inputEl.readOnly = true;
+    preview.inputEl.rows = 14;
+
+    const actions = contentEl.createDiv('bibliography-actions');
+    new ButtonComponent(actions)
+      .setButtonText('복사')
+      .onClick(async () => {
+        await navigator.clipboard.writeText(this.render());
+        new Notice(`${BIBLIOGRAPHY_FORMATS[this.format].label} 참고문헌을 복사했습니다.`);
+      });
+    new ButtonComponent(actions)
+      .setButtonText('파일로 저장')
+      .setCta()
+      .onClick(async () => {
+        const file = await this.save();
+        new Notice(`💾 ${file.path}에 저장했습니다.`);
+        this.close();
+      });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render(): string {
+    return exportBibliography(this.books, this.format);
+  }
+
+  private async save(): Promise<TFile> {
+    const fileName = `참고문헌 ${window.moment().format('YYYY-MM-DD HHmmss')}.${BIBLIOGRAPHY_FORMATS[this.format].extension}`;
+    const path = normalizePath(this.targetFolder ? `${this.targetFolder}/${fileName}` : fileName);
+    return await this.app.vault.create(path, this.render());
+  }
+}
@@ -0,0 +1,201 @@
+import { App, ButtonComponent, Modal, Notice, TFile, normalizePath } from 'obsidian';
+import KRBookPlugin from '../main';
+import { BookNoteTemplate } from '../utils/template';
+import { getNoteBookIds, getNotesInFolder } from '../utils/book-notes';
+import { ErrorHandler } from '../utils/error-handler';
+import { TaskQueue } from '../utils/task-queue';
+import { isTOCPlaceholder } from '../utils/note-diff';
+
+// 국립중앙도서관/카카오 호출 제한을 고려한 노트 간 대기 시간
+const BULK_REFRESH_INTERVAL_MS = 1500;
+
+interface BulkRefreshResult {
+  file: TFile;
+  status: 'updated' | 'unchanged' | 'failed';
+  detail: string;
+}
+
+/**
+ * 노트 폴더의 모든 도서 노트 메타데이터/목차/표지 일괄 새로고침
+ */
+export class BulkRefreshModal extends Modal {
+  private plugin: KRBookPlugin;
+  private files: TFile[] = [];
+  private results: BulkRefreshResult[] = [];
+  private queue: TaskQueue<TFile> | null = null;
+
+  private progressEl: HTMLProgressElement;
+  private statusEl: HTMLElement;
+  private pauseButton: ButtonComponent;
+
+  constructor(app: App, plugin: KRBookPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-bulk-modal');
+
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.plugin.settings.noteFolder);
+    this.files = getNotesInFolder(this.app, folderPath).filter(file => getNoteBookIds(this.app, file)?.isbn);
+
+    contentEl.createEl('h2', { text: '🔄 도서 노트 일괄 새로고침' });
+    contentEl.createEl('p', {
+      text: `"${folderPath || '/'}" 폴더에서 ISBN이 있는 도서 노트 ${this.files.length}개를 찾았습니다. 메타데이터, 목차, 표지를 최신 정보로 갱신합니다 (created, tags와 메모는 유지).`,
+      cls: 'setting-item-description'
+    });
+
+    this.progressEl = contentEl.createEl('progress', { cls: 'bulk-progress' });
+    this.progressEl.max = Math.max(1, this.files.length);
+    this.progressEl.value = 0;
+    this.statusEl = contentEl.createDiv('bulk-status');
+
+    const actions = contentEl.createDiv('bulk-actions');
+    const startButton = new ButtonComponent(actions)
+      .setButtonText('시작')
+      .setCta()
+      .setDisabled(this.files.length === 0)
+      .onClick(async () => {
+        startButton.setDisabled(true);
+        try {
+          await this.start();
+        } catch (error) {
+          // 보고서 노트 생성/열기 실패 등
+          console.error('❌ [BulkRefresh] Failed:', error);
+          new Notice('❌ 일괄 새로고침 실패: ' + error.message);
+        }
+      });
+    this.pauseButton = new ButtonComponent(actions)
+      .setButtonText('일시정지')
+      .setDisabled(true)
+      .onClick(() => this.togglePause());
+    new ButtonComponent(actions)
+      .setButtonText('취소')
+      .setWarning()
+      .onClick(() => {
+        if (this.queue) {
+          this.queue.cancel();
+          this.statusEl.setText('취소하는 중... 진행 중인 노트까지만 처리합니다.');
+        } else {
+          this.close();
+        }
+      });
+  }
+
+  onClose() {
+    // 닫으면 진행 중인 노트까지만 처리하고 취소 (일시정지 중이어도 멈춰 있지 않도록), 보고서는 그대로 작성
+    this.queue?.cancel();
+    this.contentEl.empty();
+  }
+
+  private async start() {
+    if (!this.plugin.settings.apiKey) {
+      new Notice('먼저 설정에서 API 키를 입력해주세요.');
+      return;
+    }
+
+    this.results = [];
+    this.pauseButton.setDisabled(false);
+
+    this.queue = new TaskQueue(this.files, (file, index) => this.refreshFile(file, index), {
+      intervalMs: BULK_REFRESH_INTERVAL_MS,
+      onProgress: completed => {
+        this.progressEl.value = completed;
+      }
+    });
+    await this.queue.run();
+
+    const cancelled = this.queue.isCancelled;
+    this.queue = null;
+    this.pauseButton.setDisabled(true);
+
+    const summary = this.summarize();
+    this.statusEl.setText(`${cancelled ? '⏹️ 취소됨' : '✅ 완료'} - ${summary}`);
+    new Notice(`🔄 일괄 새로고침 ${cancelled ? '취소' : '완료'}: ${summary}`, 8000);
+
+    const reportFile = await this.writeReport(cancelled);
+    await this.app.workspace.getLeaf().openFile(reportFile);
+  }
+
+  private async refreshFile(file: TFile, index: number) {
+    this.statusEl.setText(`(${index + 1}/${this.files.length}) ${file.basename}`);
+    const ids = getNoteBookIds(this.app, file);
+
+    try {
+      const book = await this.plugin.fetchBookForNote(file);
+      if (!book) {
+        this.results.push({ file, status: 'failed', detail: '국립중앙도서관에서 이 도서를 찾지 못했습니다.' });
+        return;
+      }
+
+      // 목차 섹션은 체크리스트 체크 등 사용자가 고친 내용이 있을 수 있어 비어 있거나 안내 문구일 때만 교체
+      const allChanges = await this.plugin.buildNoteChanges(file, book);
+      const changes = allChanges.filter(change => change.kind !== 'section' || isTOCPlaceholder(change.oldValue));
+      const keptTOC = changes.length < allChanges.length ? '목차는 기존 내용을 유지했습니다 (노트에서 직접 새로고침하면 비교 후 교체할 수 있습니다).' : '';
+      if (changes.length === 0) {
+        this.results.push({ file, status: 'unchanged', detail: keptTOC });
+        return;
+      }
+
+      await this.plugin.applyNoteChanges(file, changes);
+      const labels = changes.map(change => change.label).join(', ');
+      this.results.push({ file, status: 'updated', detail: keptTOC ? `${labels} - ${keptTOC}` : labels });
+    } catch (error) {
+      console.error(`❌ [BulkRefresh] ${file.path}:`, error);
+      const processed = ErrorHandler.processError(error, {
+        operation: '메타데이터 새로고침',
+        bookTitle: file.basename,
+        isbn: ids?.isbn,
+        controlNo: ids?.controlNo
+      });
+      this.results.push({ file, status: 'failed', detail: `${processed.userMessage} ${processed.suggestedAction}` });
+    }
+  }
+
+  private togglePause() {
+    if (!this.queue) return;
+
+    if (this.queue.isPaused) {
+      this.queue.resume();
+      this.pauseButton.setButtonText('일시정지');
+    } else {
+      this.queue.pause();
+      this.pauseButton.setButtonText('재개');
+      this.statusEl.setText('⏸️ 일시정지됨 - 진행 중인 노트를 마치고 멈춥니다.');
+    }
+  }
+
+  private summarize(): string {
+    const count = (status: BulkRefreshResult['status']) => this.results.filter(result => result.status === status).length;
+    return `갱신 ${count('updated')}개, 변경 없음 ${count('unchanged')}개, 실패 ${count('failed')}개`;
+  }
+
+  /**
+   * 결과 보고서 노트 작성 (노트 폴더에 생성)
+   */
+  private async writeReport(cancelled: boolean): Promise<TFile> {
+    const section = (title: string, status: BulkRefreshResult['status']) => {
+      const items = this.results.filter(result => result.status === status);
+      const lines = items.map(result => `- [[${result.file.path}|${result.file.basename}]]${result.detail ? ` - ${result.detail}` : ''}`);
+      return [`## ${title} (${items.length})`, '', ...(lines.length > 0 ? lines : ['- 없음']), ''];
+    };
+
+    const content = [
+      '# 도서 노트 일괄 새로고침 보고서',
+      '',
+      `- 실행 시각: ${window.moment().format('YYYY-MM-DD HH:mm')}`,
+      `- 대상: ${this.files.length}개 중 ${this.results.length}개 처리${cancelled ? ' (사용자 취소)' : ''}`,
+      `- 결과: ${this.summarize()}`,
+      '',
+      ...section('✅ 갱신됨', 'updated'),
+      ...section('➖ 변경 없음', 'unchanged'),
+      ...section('❌ 실패', 'failed')
+    ].join('\n');
+
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.plugin.settings.noteFolder);
+    const fileName = `도서 새로고침 보고서 ${window.moment().format('YYYY-MM-DD HHmmss')}.md`;
+    return await this.app.vault.create(normalizePath(folderPath ? `${folderPath}/${fileName}` : fileName), content);
+  }
+}
@@ -0,0 +1,111 @@
+import { App, ButtonComponent, Editor, FuzzySuggestModal, Modal, Setting, TFile } from 'obsidian';
+import KRBookPlugin from '../main';
+import { Book } from '../api/types';
+import { BookNoteTemplate } from '../utils/template';
+import { bookFromNote, getNotesInFolder } from '../utils/book-notes';
+import { CITATION_STYLE_LABELS, CitationStyle, formatCitation } from '../utils/citation';
+
+/**
+ * 인용할 도서 노트 선택 (노트 폴더의 도서 노트)
+ */
+export class BookNoteSuggestModal extends FuzzySuggestModal<{ file: TFile; book: Book }> {
+  constructor(app: App, private plugin: KRBookPlugin, private onChoose: (file: TFile, book: Book) => void) {
+    super(app);
+    this.setPlaceholder('인용할 도서를 검색하세요');
+  }
+
+  getItems(): { file: TFile; book: Book }[] {
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.plugin.settings.noteFolder);
+    return getNotesInFolder(this.app, folderPath)
+      .map(file => ({ file, book: bookFromNote(this.app, file) }))
+      .filter((item): item is { file: TFile; book: Book } => item.book !== null);
+  }
+
+  getItemText(item: { file: TFile; book: Book }): string {
+    return [item.book.title, item.book.author, item.book.publisher].filter(Boolean).join(' · ');
+  }
+
+  onChooseItem(item: { file: TFile; book: Book }): void {
+    this.onChoose(item.file, item.book);
+  }
+}
+
+/**
+ * 인용 스타일과 쪽수를 고르고 커서 위치에 인용문 삽입
+ */
+export class CitationModal extends Modal {
+  private style: CitationStyle;
+  private page = '';
+
+  constructor(app: App, private plugin: KRBookPlugin, private book: Book, private editor: Editor) {
+    super(app);
+    this.style = plugin.settings.citationStyle;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-citation-modal');
+
+    contentEl.createEl('h2', { text: '📎 인용 삽입' });
+    const previewEl = contentEl.createDiv('citation-preview');
+    const updatePreview = () => previewEl.setText(this.render());
+
+    new Setting(contentEl)
+      .setName('인용 스타일')
+      .addDropdown(dropdown => {
+        Object.entries(CITATION_STYLE_LABELS).forEach(([value, label]) => dropdown.addOption(value, label));
+        dropdown
+          .setValue(this.style)
+          .onChange(value => {
+            this.style = value as CitationStyle;
+            updatePreview();
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('쪽수')
+      .setDesc('비워 두면 쪽수 없이 인용합니다.')
+      .addText(text => {
+        text
+          .setPlaceholder('예: 23 또는 23-25')
+          .onChange(value => {
+            this.page = value;
+            updatePreview();
+          });
+        text.inputEl.addEventListener('keydown', event => {
+          if (event.key === 'Enter') {
+            event.preventDefault();
+            this.insert();
+          }
+        });
+      });
+
+    updatePreview();
+
+    const actions = contentEl.createDiv('citation-actions');
+    new ButtonComponent(actions)
+      .setButtonText('삽입')
+      .setCta()
+      .onClick(() => this.insert());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render(): string {
+    return formatCitation(this.book, this.style, this.page);
+  }
+
+  private async insert() {
+    this.editor.replaceSelection(this.render());
+
+    // 마지막으로 사용한 스타일을 기본값으로 기억
+    if (this.plugin.settings.citationStyle !== this.style) {
+      this.plugin.settings.citationStyle = this.style;
+      await this.plugin.saveSettings();
+    }
+    this.close();
+  }
+}
@@ -0,0 +1,59 @@
+import { App, ButtonComponent, Modal, TFile } from 'obsidian';
+import { Book } from '../api/types';
+
+export type DuplicateAction = 'open' | 'refresh' | 'copy';
+
+/**
+ * 같은 ISBN의 노트가 이미 있을 때 처리 방법을 묻는 모달
+ */
+export class DuplicateNoteModal extends Modal {
+  private resolve: (action: DuplicateAction | null) => void;
+  private chosen: DuplicateAction | null = null;
+
+  constructor(app: App, private book: Book, private existing: TFile) {
+    super(app);
+  }
+
+  /**
+   * 모달을 열고 사용자가 고른 처리 방법 반환 (닫으면 null)
+   */
+  choose(): Promise<DuplicateAction | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-duplicate-modal');
+
+    contentEl.createEl('h2', { text: '📚 이미 등록된 도서입니다' });
+    contentEl.createEl('p', { text: `"${this.book.title}" (ISBN ${this.book.isbn}) 노트가 이미 있습니다.` });
+    contentEl.createEl('p', { text: this.existing.path, cls: 'duplicate-note-path' });
+
+    const actions = contentEl.createDiv('duplicate-note-actions');
+    new ButtonComponent(actions)
+      .setButtonText('기존 노트 열기')
+      .setCta()
+      .onClick(() => this.finish('open'));
+    new ButtonComponent(actions)
+      .setButtonText('메타데이터 새로고침')
+      .setTooltip('프론트매터만 갱신하고 메모/인용구 등 본문은 그대로 둡니다.')
+      .onClick(() => this.finish('refresh'));
+    new ButtonComponent(actions)
+      .setButtonText('사본 만들기')
+      .onClick(() => this.finish('copy'));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(this.chosen);
+  }
+
+  private finish(action: DuplicateAction) {
+    this.chosen = action;
+    this.close();
+  }
+}
@@ -0,0 +1,57 @@
+import KRBookPlugin from '../main';
+import { collectLibraryEntries } from '../utils/library';
+import {
+  GoalPeriod,
+  computeGoalProgress,
+  computeReadingStreak,
+  formatGoalPace,
+  formatGoalProgress,
+  parseGoalBlockOptions
+} from '../utils/reading-goals';
+
+export const GOAL_BLOCK_LANGUAGE = 'kr-book-goal';
+
+const GOAL_PERIOD_TITLES: Record<GoalPeriod, string> = {
+  year: '연간 목표',
+  month: '월간 목표'
+};
+
+/**
+ * 독서 목표 코드 블록 렌더링 - 설정의 연간/월간 목표 달성도와 연속 달성 기록
+ */
+export async function renderGoalBlock(plugin: KRBookPlugin, source: string, el: HTMLElement): Promise<void> {
+  const { periods, showStreak } = parseGoalBlockOptions(source);
+  const settings = plugin.settings;
+  const entries = await collectLibraryEntries(plugin.app, settings.noteFolder, { covers: false });
+  const today = new Date();
+
+  const containerEl = el.createDiv('kr-book-goal-block');
+  containerEl.createDiv({ text: '🎯 독서 목표', cls: 'goal-block-title' });
+
+  let shown = 0;
+  periods.forEach(period => {
+    const goal = period === 'year' ? settings.yearlyGoal : settings.monthlyGoal;
+    if (goal.target <= 0) return;
+
+    const progress = computeGoalProgress(entries, goal, period, today);
+    const rowEl = containerEl.createDiv('goal-block-row');
+    rowEl.createDiv({ text: `${GOAL_PERIOD_TITLES[period]} · ${formatGoalProgress(progress)}`, cls: 'goal-block-label' });
+    const barEl = rowEl.createDiv('goal-block-bar');
+    barEl.createDiv('goal-block-bar-fill').style.width = `${Math.round(progress.ratio * 100)}%`;
+    rowEl.createDiv({ text: formatGoalPace(progress), cls: 'goal-block-pace' });
+    shown++;
+  });
+
+  if (shown === 0) {
+    containerEl.createDiv({ text: '설정의 "독서 목표"에서 연간 또는 월간 목표를 정하면 달성도가 표시됩니다.', cls: 'goal-block-pace' });
+  }
+
+  if (showStreak) {
+    const streak = computeReadingStreak(entries, settings.monthlyGoal, today);
+    const criterion = settings.monthlyGoal.target > 0 ? '월간 목표 달성' : '매달 1권 이상 완독';
+    containerEl.createDiv({
+      text: `🔥 ${criterion} ${streak.current}개월 연속 (최장 ${streak.longest}개월)`,
+      cls: 'goal-block-streak'
+    });
+  }
+}
@@ -0,0 +1,295 @@
+import { App, ButtonComponent, Modal, Notice, Setting, TextAreaComponent } from 'obsidian';
+import KRBookPlugin from '../main';
+import { Book } from '../api/types';
+import { NationalLibraryAPI } from '../api/nlk-api';
+import { DuplicateAction } from './duplicate-note-modal';
+import { extractISBNs } from '../utils/isbn';
+import { ErrorHandler } from '../utils/error-handler';
+import { TaskQueue } from '../utils/task-queue';
+
+// ISBN 조회 사이 대기 시간 (국립중앙도서관 호출 제한 대응)
+const LOOKUP_INTERVAL_MS = 500;
+
+interface ISBNLookupRow {
+  isbn: string;
+  status: 'found' | 'ambiguous' | 'not-found' | 'failed';
+  candidates: Book[];
+  selected: number;
+  include: boolean;
+  error?: string;
+}
+
+/**
+ * ISBN 목록 일괄 가져오기 - 붙여넣은 텍스트에서 ISBN 추출 → 조회 → 확인 → 노트 생성
+ */
+export class ISBNImportModal extends Modal {
+  private plugin: KRBookPlugin;
+  private rows: ISBNLookupRow[] = [];
+  private invalid: string[] = [];
+  private duplicateAction: DuplicateAction | 'skip' = 'skip';
+  private queue: TaskQueue<string> | TaskQueue<Book> | null = null;
+
+  constructor(app: App, plugin: KRBookPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    this.contentEl.addClass('kr-book-bulk-modal');
+    this.renderInput();
+  }
+
+  onClose() {
+    this.queue?.cancel();
+    this.contentEl.empty();
+  }
+
+  /**
+   * 1단계 - ISBN 붙여넣기
+   */
+  private renderInput() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: '📚 ISBN 목록으로 가져오기' });
+    contentEl.createEl('p', {
+      text: 'ISBN을 한 줄에 하나씩 또는 영수증/스프레드시트 내용 그대로 붙여넣으세요. ISBN-10/13을 찾아 체크섬을 확인합니다.',
+      cls: 'setting-item-description'
+    });
+
+    const summaryEl = contentEl.createDiv('bulk-status');
+    let textArea: TextAreaComponent;
+    const updateSummary = () => {
+      const { valid, invalid } = extractISBNs(textArea.getValue());
+      summaryEl.setText(`유효한 ISBN ${valid.length}개${invalid.length > 0 ? `, 체크섬 오류 ${invalid.length}개` : ''}`);
+      lookupButton.setDisabled(valid.length === 0);
+    };
+
+    textArea = new TextAreaComponent(contentEl)
+      .setPlaceholder('9788966262281\n978-89-6626-228-1\n...')
+      .onChange(updateSummary);
+    textArea.inputEl.addClass('isbn-import-input');
+    textArea.inputEl.rows = 10;
+
+    const actions = contentEl.createDiv('bulk-actions');
+    const lookupButton = new ButtonComponent(actions)
+      .setButtonText('조회')
+      .setCta()
+      .setDisabled(true)
+      .onClick(() => {
+        const { valid, invalid } = extractISBNs(textArea.getValue());
+        this.invalid = invalid;
+        this.lookup(valid);
+      });
+  }
+
+  /**
+   * 2단계 - ISBN별 조회 (진행률 표시)
+   */
+  private async lookup(isbns: string[]) {
+    if (!this.plugin.settings.apiKey) {
+      new Notice('먼저 설정에서 API 키를 입력해주세요.');
+      return;
+    }
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: '🔍 ISBN 조회 중' });
+    const progressEl = contentEl.createEl('progress', { cls: 'bulk-progress' });
+    progressEl.max = isbns.length;
+    progressEl.value = 0;
+    const statusEl = contentEl.createDiv('bulk-status');
+
+    const api = new NationalLibraryAPI(this.plugin.settings.apiKey);
+    this.rows = [];
+
+    this.queue = new TaskQueue(isbns, async (isbn, index) => {
+      statusEl.setText(`(${index + 1}/${isbns.length}) ${isbn}`);
+      try {
+        const candidates = await api.findBooksByISBN(isbn);
+        const status = candidates.length === 0 ? 'not-found' : candidates.length === 1 ? 'found' : 'ambiguous';
+        this.rows.push({ isbn, status, candidates, selected: 0, include: status === 'found' });
+      } catch (error) {
+        const processed = ErrorHandler.processError(error, { operation: 'ISBN 조회', isbn });
+        this.rows.push({ isbn, status: 'failed', candidates: [], selected: 0, include: false, error: processed.userMessage });
+      }
+    }, {
+      intervalMs: LOOKUP_INTERVAL_MS,
+      onProgress: completed => {
+        progressEl.value = completed;
+      }
+    });
+
+    await this.queue.run();
+    const cancelled = this.queue.isCancelled;
+    this.queue = null;
+    if (!cancelled) {
+      this.renderConfirm();
+    }
+  }
+
+  /**
+   * 3단계 - 조회 결과 확인 (모호한 ISBN은 후보 선택)
+   */
+  private renderConfirm() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const matched = this.rows.filter(row => row.status === 'found' || row.status === 'ambiguous');
+    contentEl.createEl('h2', { text: '✅ 조회 결과 확인' });
+    contentEl.createEl('p', { text: this.lookupSummary(), cls: 'setting-item-description' });
+
+    const listEl = contentEl.createDiv('isbn-import-list');
+    for (const row of matched) {
+      const setting = new Setting(listEl)
+        .setName(row.status === 'ambiguous' ? `⚠️ ${row.isbn} - 후보 ${row.candidates.length}개` : this.describe(row.candidates[0]))
+        .setDesc(row.status === 'ambiguous' ? '같은 ISBN의 도서가 여러 개입니다. 만들 도서를 선택하세요.' : row.isbn);
+
+      if (row.status === 'ambiguous') {
+        setting.addDropdown(dropdown => {
+          row.candidates.forEach((book, index) => dropdown.addOption(String(index), this.describe(book)));
+          dropdown
+            .setValue(String(row.selected))
+            .onChange(value => {
+              row.selected = parseInt(value, 10);
+            });
+        });
+      }
+
+      setting.addToggle(toggle => toggle
+        .setValue(row.include)
+        .onChange(value => {
+          row.include = value;
+        }));
+    }
+
+    this.renderProblems(contentEl);
+
+    new Setting(contentEl)
+      .setName('이미 노트가 있는 도서')
+      .addDropdown(dropdown => dropdown
+        .addOption('skip', '건너뛰기')
+        .addOption('refresh', '메타데이터 새로고침')
+        .addOption('copy', '사본 만들기')
+        .setValue(this.duplicateAction)
+        .onChange(value => {
+          this.duplicateAction = value as DuplicateAction | 'skip';
+        }));
+
+    const actions = contentEl.createDiv('bulk-actions');
+    new ButtonComponent(actions)
+      .setButtonText('처음으로')
+      .onClick(() => this.renderInput());
+    new ButtonComponent(actions)
+      .setButtonText('선택한 도서 노트 만들기')
+      .setCta()
+      .setDisabled(matched.length === 0)
+      .onClick(() => this.createNotes());
+  }
+
+  /**
+   * 4단계 - 선택한 도서의 노트를 한 번에 생성
+   */
+  private async createNotes() {
+    const books = this.rows
+      .filter(row => row.include && row.candidates.length > 0)
+      .map(row => row.candidates[row.selected]);
+    if (books.length === 0) {
+      new Notice('선택한 도서가 없습니다.');
+      return;
+    }
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: '📝 노트 만드는 중' });
+    const progressEl = contentEl.createEl('progress', { cls: 'bulk-progress' });
+    progressEl.max = books.length;
+    progressEl.value = 0;
+    const statusEl = contentEl.createDiv('bulk-status');
+
+    const counts = { created: 0, refreshed: 0, skipped: 0, failed: 0 };
+    const failures: string[] = [];
+
+    // 노트 생성은 목차 조회 등 자체 요청이 있어 별도 간격 없이 순서대로 처리
+    this.queue = new TaskQueue(books, async (book, index) => {
+      statusEl.setText(`(${index + 1}/${books.length}) ${book.title}`);
+      try {
+        const result = await this.plugin.createBookNote(book, { duplicateAction: this.duplicateAction, openAfterCreation: false, chooseTemplate: false });
+        if (result?.action === 'created') counts.created++;
+        else if (result?.action === 'refreshed') counts.refreshed++;
+        else counts.skipped++;
+      } catch (error) {
+        counts.failed++;
+        const processed = ErrorHandler.processError(error, { operation: '노트 생성', bookTitle: book.title, isbn: book.isbn });
+        failures.push(`${book.title} (${book.isbn}) - ${processed.userMessage}`);
+      }
+    }, {
+      intervalMs: 0,
+      onProgress: completed => {
+        progressEl.value = completed;
+      }
+    });
+
+    await this.queue.run();
+    const cancelled = this.queue.isCancelled;
+    this.queue = null;
+
+    const summary = `생성 ${counts.created}개, 새로고침 ${counts.refreshed}개, 건너뜀 ${counts.skipped}개, 실패 ${counts.failed}개`;
+    if (cancelled) {
+      // 모달을 닫아 취소된 경우 - 닫힌 모달에 그리지 않고 취소 전까지 처리한 결과만 알림
+      new Notice(`📚 ISBN 가져오기 취소: ${summary}`, 8000);
+      return;
+    }
+    new Notice(`📚 ISBN 가져오기 완료: ${summary}`, 8000);
+
+    contentEl.empty();
+    contentEl.createEl('h2', { text: '📚 가져오기 완료' });
+    contentEl.createEl('p', { text: summary });
+    if (failures.length > 0) {
+      contentEl.createEl('h4', { text: '노트 생성 실패' });
+      const listEl = contentEl.createEl('ul', { cls: 'isbn-import-problems' });
+      failures.forEach(text => listEl.createEl('li', { text }));
+    }
+    this.renderProblems(contentEl);
+
+    const actions = contentEl.createDiv('bulk-actions');
+    new ButtonComponent(actions)
+      .setButtonText('닫기')
+      .setCta()
+      .onClick(() => this.close());
+  }
+
+  /**
+   * 찾지 못했거나 모호한/잘못된 ISBN 보고
+   */
+  private renderProblems(containerEl: HTMLElement) {
+    const problems = [
+      ...this.invalid.map(isbn => `${isbn} - 체크섬이 맞지 않는 ISBN`),
+      ...this.rows.filter(row => row.status === 'not-found').map(row => `${row.isbn} - 국립중앙도서관에서 찾지 못함`),
+      ...this.rows.filter(row => row.status === 'failed').map(row => `${row.isbn} - ${row.error}`),
+      ...this.rows.filter(row => row.status === 'ambiguous').map(row => `${row.isbn} - 후보 ${row.candidates.length}개 (${row.include ? `"${row.candidates[row.selected].title}" 선택` : '선택 안 함'})`)
+    ];
+    if (problems.length === 0) return;
+
+    containerEl.createEl('h4', { text: '⚠️ 확인이 필요한 ISBN' });
+    const listEl = containerEl.createEl('ul', { cls: 'isbn-import-problems' });
+    problems.forEach(text => listEl.createEl('li', { text }));
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('목록 복사')
+        .onClick(async () => {
+          await navigator.clipboard.writeText(problems.join('\n'));
+          new Notice('확인이 필요한 ISBN 목록을 복사했습니다.');
+        }));
+  }
+
+  private lookupSummary(): string {
+    const count = (status: ISBNLookupRow['status']) => this.rows.filter(row => row.status === status).length;
+    return `찾음 ${count('found')}개, 후보 여러 개 ${count('ambiguous')}개, 찾지 못함 ${count('not-found')}개, 조회 실패 ${count('failed')}개, 체크섬 오류 ${this.invalid.length}개`;
+  }
+
+  private describe(book: Book): string {
+    return [book.title, book.author, book.publisher, book.publishDate].filter(Boolean).join(' · ');
+  }
+}
@@ -0,0 +1,292 @@
+import { App, ButtonComponent, Modal, Notice, Setting, TFile } from 'obsidian';
+import KRBookPlugin from '../main';
+import { Book } from '../api/types';
+import { NationalLibraryAPI } from '../api/nlk-api';
+import { DuplicateAction } from './duplicate-note-modal';
+import { parseCSVRecords } from '../utils/csv';
+import {
+  ColumnMapping,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FORMAT_LABELS,
+  ImportField,
+  ImportedReadingRecord,
+  LibraryImportFormat,
+  detectImportFormat,
+  guessColumnMapping,
+  toReadingRecords
+} from '../utils/library-import';
+import { ErrorHandler } from '../utils/error-handler';
+import { TaskQueue } from '../utils/task-queue';
+import { applyRating } from '../utils/reading-status';
+import { replaceNoteSection } from '../utils/note-diff';
+
+// 가져온 리뷰를 넣는 본문 섹션 제목
+const REVIEW_SECTION_HEADING = '## ✍️ 리뷰';
+
+// 행마다 국립중앙도서관 검색이 한두 번 일어나므로 호출 간격 유지
+const IMPORT_INTERVAL_MS = 800;
+
+/**
+ * 독서 기록 파일 가져오기 - Goodreads/알라딘/일반 CSV를 읽어 국립중앙도서관 도서와 매칭 후 노트 생성
+ */
+export class LibraryImportModal extends Modal {
+  private plugin: KRBookPlugin;
+  private fileName = '';
+  private headers: string[] = [];
+  private records: Record<string, string>[] = [];
+  private format: LibraryImportFormat = 'generic';
+  private mapping: ColumnMapping = {};
+  private duplicateAction: DuplicateAction | 'skip' = 'skip';
+  private queue: TaskQueue<ImportedReadingRecord> | null = null;
+
+  constructor(app: App, plugin: KRBookPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    this.contentEl.addClass('kr-book-bulk-modal');
+    this.renderFilePicker();
+  }
+
+  onClose() {
+    this.queue?.cancel();
+    this.contentEl.empty();
+  }
+
+  /**
+   * 1단계 - 파일 선택
+   */
+  private renderFilePicker() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: '📥 독서 기록 가져오기' });
+    contentEl.createEl('p', {
+      text: 'Goodreads CSV 내보내기, 알라딘 "내 서재" 내보내기, 또는 ISBN/제목 열이 있는 CSV 파일을 선택하세요.',
+      cls: 'setting-item-description'
+    });
+
+    const input = contentEl.createEl('input', { type: 'file', attr: { accept: '.csv,.tsv,.txt' } });
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      const { headers, records } = parseCSVRecords(await file.text());
+      if (headers.length === 0 || records.length === 0) {
+        new Notice('❌ CSV에서 읽을 수 있는 행이 없습니다.');
+        return;
+      }
+
+      this.fileName = file.name;
+      this.headers = headers;
+      this.records = records;
+      this.format = detectImportFormat(headers);
+      this.mapping = guessColumnMapping(headers, this.format);
+      this.renderMapping();
+    });
+  }
+
+  /**
+   * 2단계 - 형식과 열 매핑 확인
+   */
+  private renderMapping() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: '📥 열 매핑 확인' });
+    contentEl.createEl('p', { text: `${this.fileName} - ${this.records.length}행`, cls: 'setting-item-description' });
+
+    new Setting(contentEl)
+      .setName('파일 형식')
+      .addDropdown(dropdown => {
+        (Object.keys(IMPORT_FORMAT_LABELS) as LibraryImportFormat[]).forEach(format =>
+          dropdown.addOption(format, IMPORT_FORMAT_LABELS[format]));
+        dropdown
+          .setValue(this.format)
+          .onChange(value => {
+            this.format = value as LibraryImportFormat;
+            this.mapping = guessColumnMapping(this.headers, this.format);
+            this.renderMapping();
+          });
+      });
+
+    (Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).forEach(field => {
+      new Setting(contentEl)
+        .setName(IMPORT_FIELD_LABELS[field])
+        .addDropdown(dropdown => {
+          dropdown.addOption('', '(사용 안 함)');
+          this.headers.forEach(header => dropdown.addOption(header, header));
+          dropdown
+            .setValue(this.mapping[field] || '')
+            .onChange(value => {
+              this.mapping[field] = value || undefined;
+              updatePreview();
+            });
+        });
+    });
+
+    new Setting(contentEl)
+      .setName('이미 노트가 있는 도서')
+      .addDropdown(dropdown => dropdown
+        .addOption('skip', '건너뛰기')
+        .addOption('refresh', '메타데이터 새로고침')
+        .addOption('copy', '사본 만들기')
+        .setValue(this.duplicateAction)
+        .onChange(value => {
+          this.duplicateAction = value as DuplicateAction | 'skip';
+        }));
+
+    const previewEl = contentEl.createDiv('bulk-status');
+    const actions = contentEl.createDiv('bulk-actions');
+    new ButtonComponent(actions)
+      .setButtonText('다른 파일')
+      .onClick(() => this.renderFilePicker());
+    const importButton = new ButtonComponent(actions)
+      .setButtonText('가져오기')
+      .setCta()
+      .onClick(() => this.runImport(toReadingRecords(this.records, this.mapping)));
+
+    const updatePreview = () => {
+      const readingRecords = toReadingRecords(this.records, this.mapping);
+      const withISBN = readingRecords.filter(record => record.isbn).length;
+      previewEl.setText(`가져올 행 ${readingRecords.length}개 (ISBN으로 매칭 ${withISBN}개, 제목/저자로 매칭 ${readingRecords.length - withISBN}개)`);
+      importButton.setDisabled(readingRecords.length === 0);
+    };
+    updatePreview();
+  }
+
+  /**
+   * 3단계 - 행별로 도서 매칭 후 노트 생성
+   */
+  private async runImport(readingRecords: ImportedReadingRecord[]) {
+    if (!this.plugin.settings.apiKey) {
+      new Notice('먼저 설정에서 API 키를 입력해주세요.');
+      return;
+    }
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: '📥 가져오는 중' });
+    const progressEl = contentEl.createEl('progress', { cls: 'bulk-progress' });
+    progressEl.max = readingRecords.length;
+    progressEl.value = 0;
+    const statusEl = contentEl.createDiv('bulk-status');
+
+    const api = new NationalLibraryAPI(this.plugin.settings.apiKey);
+    const counts = { created: 0, refreshed: 0, skipped: 0 };
+    const problems: string[] = [];
+
+    this.queue = new TaskQueue(readingRecords, async (record, index) => {
+      const label = record.title || record.isbn;
+      statusEl.setText(`(${index + 1}/${readingRecords.length}) ${label}`);
+
+      try {
+        const book = await this.matchBook(api, record);
+        if (!book) {
+          problems.push(`${record.row}행 ${label} - 국립중앙도서관에서 일치하는 도서를 찾지 못함`);
+          return;
+        }
+
+        const result = await this.plugin.createBookNote(book, { duplicateAction: this.duplicateAction, openAfterCreation: false, chooseTemplate: false });
+        if (result?.action === 'created' || result?.action === 'refreshed') {
+          counts[result.action]++;
+          await this.applyPersonalFields(result.file, record);
+        } else {
+          counts.skipped++;
+        }
+      } catch (error) {
+        const processed = ErrorHandler.processError(error, { operation: '독서 기록 가져오기', bookTitle: record.title, isbn: record.isbn });
+        problems.push(`${record.row}행 ${label} - ${processed.userMessage}`);
+      }
+    }, {
+      intervalMs: IMPORT_INTERVAL_MS,
+      onProgress: completed => {
+        progressEl.value = completed;
+      }
+    });
+
+    await this.queue.run();
+    const cancelled = this.queue.isCancelled;
+    this.queue = null;
+    if (cancelled) return;
+
+    const summary = `생성 ${counts.created}개, 새로고침 ${counts.refreshed}개, 건너뜀 ${counts.skipped}개, 실패 ${problems.length}개`;
+    new Notice(`📥 독서 기록 가져오기 완료: ${summary}`, 8000);
+
+    contentEl.empty();
+    contentEl.createEl('h2', { text: '📥 가져오기 완료' });
+    contentEl.createEl('p', { text: summary });
+
+    if (problems.length > 0) {
+      contentEl.createEl('h4', { text: '⚠️ 가져오지 못한 행' });
+      const listEl = contentEl.createEl('ul', { cls: 'isbn-import-problems' });
+      problems.forEach(text => listEl.createEl('li', { text }));
+    }
+
+    const actions = contentEl.createDiv('bulk-actions');
+    if (problems.length > 0) {
+      new ButtonComponent(actions)
+        .setButtonText('목록 복사')
+        .onClick(async () => {
+          await navigator.clipboard.writeText(problems.join('\n'));
+          new Notice('가져오지 못한 행 목록을 복사했습니다.');
+        });
+    }
+    new ButtonComponent(actions)
+      .setButtonText('닫기')
+      .setCta()
+      .onClick(() => this.close());
+  }
+
+  /**
+   * 국립중앙도서관 도서 매칭 - ISBN 우선, 없으면 제목(+저자) 검색 결과 중 제목이 맞는 도서
+   */
+  private async matchBook(api: NationalLibraryAPI, record: ImportedReadingRecord): Promise<Book | null> {
+    if (record.isbn) {
+      const [book] = await api.findBooksByISBN(record.isbn);
+      if (book) return book;
+    }
+    if (!record.title) return null;
+
+    // Goodreads 제목의 시리즈 표기 "(Series, #1)" 제거
+    const title = record.title.replace(/\s*\([^)]*#\d+[^)]*\)\s*$/, '');
+    const target = this.normalizeTitle(title);
+
+    const attempts = record.author ? [{ title, author: record.author }, { title }] : [{ title }];
+    for (const params of attempts) {
+      const { books } = await api.searchBooks({ ...params, pageSize: 10 });
+      const match = books.find(book => this.normalizeTitle(book.title) === target) ||
+        books.find(book => this.normalizeTitle(book.title).startsWith(target));
+      if (match) return match;
+    }
+    return null;
+  }
+
+  /**
+   * 가져온 개인 기록을 노트에 추가 - 독서 상태(없으면 읽은 날짜가 있을 때 완독), 평점, 서재, 리뷰
+   */
+  private async applyPersonalFields(file: TFile, record: ImportedReadingRecord) {
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      // 시작일은 기록에 없으므로 비워 둠
+      const status = record.status ?? (record.readDate ? '완독' : undefined);
+      if (status) {
+        frontmatter.status = status;
+      }
+      if (status === '완독' && record.readDate) {
+        frontmatter.endDate = record.readDate;
+      }
+      if (record.rating !== undefined) applyRating(frontmatter, record.rating);
+      if (record.shelves.length > 0) frontmatter.shelves = record.shelves;
+    });
+
+    if (record.review) {
+      // 다시 가져와도 리뷰 섹션이 겹치지 않도록 있으면 내용만 교체
+      await this.app.vault.process(file, content => replaceNoteSection(content, REVIEW_SECTION_HEADING, record.review!));
+    }
+  }
+
+  private normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+  }
+}
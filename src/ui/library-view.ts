@@ -0,0 +1,311 @@
+import { ItemView, Keymap, Setting, WorkspaceLeaf, debounce } from 'obsidian';
+import KRBookPlugin from '../main';
+import { ReadingStatusValue } from '../api/types';
+import { BookNoteTemplate } from '../utils/template';
+import {
+  LIBRARY_LAYOUT_LABELS,
+  LIBRARY_SORT_LABELS,
+  LibraryEntry,
+  LibraryFilter,
+  LibraryLayout,
+  LibrarySortKey,
+  collectLibraryEntries,
+  isInNoteFolder,
+  filterLibraryEntries,
+  sortLibraryEntries,
+  uniqueValues
+} from '../utils/library';
+import { READING_STATUSES, READING_STATUS_ICONS, formatProgress } from '../utils/reading-status';
+import { getKDCMainClassLabel } from '../utils/kdc';
+
+export const LIBRARY_VIEW_TYPE = 'kr-book-library';
+
+/**
+ * 서재 뷰 - 노트 폴더의 도서 노트를 표/격자/책장 형태로 보여주고 정렬·필터
+ */
+export class LibraryView extends ItemView {
+  private plugin: KRBookPlugin;
+  private entries: LibraryEntry[] = [];
+  private filter: LibraryFilter = {};
+  private resultsEl: HTMLElement | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: KRBookPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return LIBRARY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return '내 서재';
+  }
+
+  getIcon(): string {
+    return 'library';
+  }
+
+  async onOpen() {
+    // 노트가 바뀔 때마다 다시 모으지 않도록 잠시 모아서 갱신
+    const scheduleReload = debounce(() => this.reload(), 1000, true);
+    this.registerEvent(this.app.metadataCache.on('changed', file => {
+      if (this.isInLibraryFolder(file.path)) scheduleReload();
+    }));
+    this.registerEvent(this.app.vault.on('delete', file => {
+      if (this.isInLibraryFolder(file.path)) scheduleReload();
+    }));
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (this.isInLibraryFolder(file.path) || this.isInLibraryFolder(oldPath)) scheduleReload();
+    }));
+
+    await this.reload();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+  }
+
+  /**
+   * 도서 노트를 다시 모아 전체 화면 갱신
+   */
+  async reload() {
+    this.entries = await collectLibraryEntries(this.app, this.plugin.settings.noteFolder);
+    console.log(`📚 [Library] Loaded ${this.entries.length} book notes`);
+    this.render();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-library');
+
+    contentEl.createEl('h3', { text: '📚 내 서재' });
+
+    if (this.entries.length === 0) {
+      contentEl.createEl('p', {
+        text: `"${BookNoteTemplate.normalizeFolderPath(this.plugin.settings.noteFolder) || '/'}" 폴더에 도서 노트가 없습니다. 도서를 검색해 노트를 만들면 여기에 표시됩니다.`,
+        cls: 'library-empty'
+      });
+      return;
+    }
+
+    this.renderToolbar(contentEl);
+    this.resultsEl = contentEl.createDiv('library-results');
+    this.renderResults();
+  }
+
+  /**
+   * 검색어, 보기 방식, 정렬, 필터
+   */
+  private renderToolbar(containerEl: HTMLElement) {
+    const settings = this.plugin.settings;
+    const toolbarEl = containerEl.createDiv('library-toolbar');
+
+    new Setting(toolbarEl)
+      .addSearch(search => search
+        .setPlaceholder('제목, 저자, 출판사 검색')
+        .setValue(this.filter.query || '')
+        .onChange(value => {
+          this.filter.query = value;
+          this.renderResults();
+        }))
+      .addDropdown(dropdown => {
+        (Object.keys(LIBRARY_LAYOUT_LABELS) as LibraryLayout[]).forEach(layout =>
+          dropdown.addOption(layout, LIBRARY_LAYOUT_LABELS[layout]));
+        dropdown
+          .setValue(settings.libraryLayout)
+          .onChange(async value => {
+            settings.libraryLayout = value as LibraryLayout;
+            await this.plugin.saveSettings();
+            this.renderResults();
+          });
+      })
+      .addDropdown(dropdown => {
+        (Object.keys(LIBRARY_SORT_LABELS) as LibrarySortKey[]).forEach(key =>
+          dropdown.addOption(key, `${LIBRARY_SORT_LABELS[key]}순`));
+        dropdown
+          .setValue(settings.librarySortKey)
+          .onChange(async value => {
+            settings.librarySortKey = value as LibrarySortKey;
+            await this.plugin.saveSettings();
+            this.renderResults();
+          });
+      })
+      .addExtraButton(button => {
+        const updateIcon = () => button
+          .setIcon(settings.librarySortOrder === 'asc' ? 'arrow-up' : 'arrow-down')
+          .setTooltip(settings.librarySortOrder === 'asc' ? '오름차순' : '내림차순');
+        updateIcon();
+        button.onClick(async () => {
+          settings.librarySortOrder = settings.librarySortOrder === 'asc' ? 'desc' : 'asc';
+          await this.plugin.saveSettings();
+          updateIcon();
+          this.renderResults();
+        });
+      });
+
+    const filtersEl = toolbarEl.createDiv('library-filters');
+    this.createFilter(filtersEl, 'status', '모든 상태',
+      READING_STATUSES.map(status => [status, `${READING_STATUS_ICONS[status]} ${status}`]));
+    this.createFilter(filtersEl, 'author', '모든 저자',
+      uniqueValues(this.entries, entry => entry.book.author).map(author => [author, author]));
+    this.createFilter(filtersEl, 'publisher', '모든 출판사',
+      uniqueValues(this.entries, entry => entry.book.publisher).map(publisher => [publisher, publisher]));
+    this.createFilter(filtersEl, 'kdcClass', '모든 분류',
+      uniqueValues(this.entries, entry => entry.kdcClass).map(kdcClass => [kdcClass, getKDCMainClassLabel(kdcClass)]));
+    this.createFilter(filtersEl, 'year', '모든 연도',
+      uniqueValues(this.entries, entry => entry.year).reverse().map(year => [year, `${year}년`]));
+    this.createFilter(filtersEl, 'tag', '모든 태그',
+      uniqueValues(this.entries, entry => entry.tags).map(tag => [tag, `#${tag}`]));
+  }
+
+  private createFilter(containerEl: HTMLElement, key: Exclude<keyof LibraryFilter, 'query'>, allLabel: string, options: [string, string][]) {
+    // 선택할 값이 없으면 필터를 숨김 (예: KDC가 없는 노트만 있는 경우)
+    if (options.length === 0) return;
+
+    const select = containerEl.createEl('select', { cls: 'dropdown' });
+    select.createEl('option', { text: allLabel, value: '' });
+    options.forEach(([value, text]) => select.createEl('option', { text, value }));
+    select.value = this.filter[key] || '';
+
+    select.addEventListener('change', () => {
+      if (key === 'status') {
+        this.filter.status = (select.value || undefined) as ReadingStatusValue | undefined;
+      } else {
+        this.filter[key] = select.value || undefined;
+      }
+      this.renderResults();
+    });
+  }
+
+  private renderResults() {
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) return;
+    resultsEl.empty();
+
+    const settings = this.plugin.settings;
+    const entries = sortLibraryEntries(
+      filterLibraryEntries(this.entries, this.filter),
+      settings.librarySortKey,
+      settings.librarySortOrder
+    );
+
+    resultsEl.createDiv({ text: `${entries.length} / ${this.entries.length}권`, cls: 'library-count' });
+    if (entries.length === 0) {
+      resultsEl.createEl('p', { text: '조건에 맞는 도서가 없습니다.', cls: 'library-empty' });
+      return;
+    }
+
+    switch (settings.libraryLayout) {
+      case 'grid':
+        this.renderGrid(resultsEl, entries);
+        break;
+      case 'shelf':
+        this.renderShelves(resultsEl, entries);
+        break;
+      default:
+        this.renderTable(resultsEl, entries);
+    }
+  }
+
+  private renderTable(containerEl: HTMLElement, entries: LibraryEntry[]) {
+    const table = containerEl.createEl('table', { cls: 'library-table' });
+    const header = table.createEl('tr');
+    ['', '제목', '저자', '출판사', '출판년도', '분류', '상태', '평점'].forEach(text => header.createEl('th', { text }));
+
+    entries.forEach(entry => {
+      const row = table.createEl('tr', { cls: 'library-item' });
+      this.createCover(row.createEl('td', { cls: 'library-table-cover' }), entry);
+      row.createEl('td', { text: entry.book.title, cls: 'library-title' });
+      row.createEl('td', { text: entry.book.author });
+      row.createEl('td', { text: entry.book.publisher });
+      row.createEl('td', { text: entry.year });
+      row.createEl('td', { text: entry.kdcClass ? getKDCMainClassLabel(entry.kdcClass) : '' });
+      row.createEl('td', { text: this.statusText(entry) });
+      row.createEl('td', { text: this.ratingText(entry.reading.rating) });
+      this.bindOpen(row, entry);
+    });
+  }
+
+  private renderGrid(containerEl: HTMLElement, entries: LibraryEntry[]) {
+    const gridEl = containerEl.createDiv('library-grid');
+
+    entries.forEach(entry => {
+      const cardEl = gridEl.createDiv('library-card library-item');
+      this.createCover(cardEl.createDiv('library-card-cover'), entry);
+      cardEl.createDiv({ text: entry.book.title, cls: 'library-title' });
+      cardEl.createDiv({ text: entry.book.author, cls: 'library-card-author' });
+      cardEl.createDiv({
+        text: [this.statusText(entry), this.ratingText(entry.reading.rating)].filter(Boolean).join(' · '),
+        cls: 'library-card-meta'
+      });
+      this.bindOpen(cardEl, entry);
+    });
+  }
+
+  /**
+   * 책장 - 독서 상태별 선반에 표지만 나란히 표시
+   */
+  private renderShelves(containerEl: HTMLElement, entries: LibraryEntry[]) {
+    const shelfOrder: ReadingStatusValue[] = ['읽는 중', '읽기 전', '완독'];
+
+    shelfOrder.forEach(status => {
+      const shelfEntries = entries.filter(entry => entry.reading.status === status);
+      if (shelfEntries.length === 0) return;
+
+      const shelfEl = containerEl.createDiv('library-shelf');
+      shelfEl.createEl('h4', { text: `${READING_STATUS_ICONS[status]} ${status} (${shelfEntries.length})` });
+      const rowEl = shelfEl.createDiv('library-shelf-row');
+
+      shelfEntries.forEach(entry => {
+        const bookEl = rowEl.createDiv('library-shelf-book library-item');
+        bookEl.setAttr('aria-label', `${entry.book.title}\n${entry.book.author}`);
+        this.createCover(bookEl, entry);
+        this.bindOpen(bookEl, entry);
+      });
+    });
+  }
+
+  /**
+   * 표지 썸네일 (표지가 없으면 제목을 넣은 대체 표지)
+   */
+  private createCover(containerEl: HTMLElement, entry: LibraryEntry) {
+    if (entry.cover) {
+      const img = containerEl.createEl('img', { cls: 'library-cover', attr: { src: entry.cover, alt: entry.book.title, loading: 'lazy' } });
+      img.addEventListener('error', () => {
+        img.remove();
+        this.createPlaceholderCover(containerEl, entry);
+      });
+      return;
+    }
+    this.createPlaceholderCover(containerEl, entry);
+  }
+
+  private createPlaceholderCover(containerEl: HTMLElement, entry: LibraryEntry) {
+    containerEl.createDiv({ text: entry.book.title, cls: 'library-cover library-cover-placeholder' });
+  }
+
+  /**
+   * 클릭하면 도서 노트 열기 (Ctrl/Cmd 클릭은 새 탭)
+   */
+  private bindOpen(el: HTMLElement, entry: LibraryEntry) {
+    el.addEventListener('click', event => {
+      this.app.workspace.getLeaf(Keymap.isModEvent(event)).openFile(entry.file);
+    });
+  }
+
+  private statusText(entry: LibraryEntry): string {
+    const { status, progress } = entry.reading;
+    const icon = `${READING_STATUS_ICONS[status]} ${status}`;
+    return status === '읽는 중' && progress ? `${icon} (${formatProgress(progress, entry.pages)})` : icon;
+  }
+
+  private ratingText(rating: number | undefined): string {
+    return rating ? `⭐ ${rating}` : '';
+  }
+
+  private isInLibraryFolder(path: string): boolean {
+    return isInNoteFolder(path, this.plugin.settings.noteFolder);
+  }
+}
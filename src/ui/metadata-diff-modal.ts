@@ -0,0 +1,78 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { NoteChange } from '../utils/note-diff';
+
+// 긴 값(책 소개, 목차 등)은 미리보기만 표시
+const PREVIEW_LENGTH = 200;
+
+/**
+ * 기존 노트와 새 도서 정보의 차이를 항목별로 보여주고 적용할 변경만 고르는 모달
+ */
+export class MetadataDiffModal extends Modal {
+  private resolve: (changes: NoteChange[] | null) => void;
+  private result: NoteChange[] | null = null;
+  private selected: Set<NoteChange>;
+
+  constructor(app: App, private noteTitle: string, private changes: NoteChange[]) {
+    super(app);
+    this.selected = new Set(changes);
+  }
+
+  /**
+   * 모달을 열고 사용자가 선택한 변경 목록 반환 (취소하면 null)
+   */
+  choose(): Promise<NoteChange[] | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-diff-modal');
+
+    contentEl.createEl('h2', { text: '🔄 메타데이터 새로고침' });
+    contentEl.createEl('p', {
+      text: `"${this.noteTitle}"에서 바뀐 항목 ${this.changes.length}개 - 적용할 항목을 선택하세요.`,
+      cls: 'setting-item-description'
+    });
+
+    const listEl = contentEl.createDiv('diff-list');
+    for (const change of this.changes) {
+      const setting = new Setting(listEl)
+        .setName(change.label)
+        .addToggle(toggle => toggle
+          .setValue(true)
+          .onChange(value => {
+            if (value) this.selected.add(change);
+            else this.selected.delete(change);
+          }));
+
+      const valuesEl = setting.descEl.createDiv('diff-values');
+      valuesEl.createDiv({ text: this.preview(change.oldValue) || '(없음)', cls: 'diff-old' });
+      valuesEl.createDiv({ text: this.preview(change.newValue), cls: 'diff-new' });
+    }
+
+    const actions = contentEl.createDiv('diff-actions');
+    new ButtonComponent(actions)
+      .setButtonText('취소')
+      .onClick(() => this.close());
+    new ButtonComponent(actions)
+      .setButtonText('선택 항목 적용')
+      .setCta()
+      .onClick(() => {
+        this.result = this.changes.filter(change => this.selected.has(change));
+        this.close();
+      });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(this.result);
+  }
+
+  private preview(value: string): string {
+    return value.length > PREVIEW_LENGTH ? `${value.slice(0, PREVIEW_LENGTH)}…` : value;
+  }
+}
@@ -0,0 +1,177 @@
+import { ItemView, Setting, WorkspaceLeaf, debounce } from 'obsidian';
+import KRBookPlugin from '../main';
+import { LibraryEntry, collectLibraryEntries, isInNoteFolder } from '../utils/library';
+import { CountItem, PeriodCount, computeReadingStats, getFinishedYears } from '../utils/reading-stats';
+import { READING_STATUS_ICONS } from '../utils/reading-status';
+
+export const READING_STATS_VIEW_TYPE = 'kr-book-reading-stats';
+
+// 세로 막대 차트 크기 (SVG viewBox 단위)
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_LABEL_HEIGHT = 20;
+
+/**
+ * 독서 통계 뷰 - 월별/연도별 완독, 읽은 쪽수, KDC 분포, 많이 읽은 저자/출판사, 평균 평점
+ */
+export class ReadingStatsView extends ItemView {
+  private plugin: KRBookPlugin;
+  private entries: LibraryEntry[] = [];
+  private year: number | null = new Date().getFullYear();
+
+  constructor(leaf: WorkspaceLeaf, plugin: KRBookPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return READING_STATS_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return '독서 통계';
+  }
+
+  getIcon(): string {
+    return 'bar-chart-2';
+  }
+
+  async onOpen() {
+    const scheduleReload = debounce(() => this.reload(), 1000, true);
+    this.registerEvent(this.app.metadataCache.on('changed', file => {
+      if (isInNoteFolder(file.path, this.plugin.settings.noteFolder)) scheduleReload();
+    }));
+
+    await this.reload();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+  }
+
+  async reload() {
+    this.entries = await collectLibraryEntries(this.app, this.plugin.settings.noteFolder, { covers: false });
+    this.render();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-reading-stats');
+
+    contentEl.createEl('h3', { text: '📈 독서 통계' });
+
+    const currentYear = new Date().getFullYear();
+    const years = getFinishedYears(this.entries);
+    if (!years.includes(currentYear)) years.unshift(currentYear);
+
+    new Setting(contentEl)
+      .setName('기간')
+      .addDropdown(dropdown => {
+        years.forEach(year => dropdown.addOption(String(year), `${year}년`));
+        dropdown.addOption('all', '전체 기간');
+        dropdown
+          .setValue(this.year === null ? 'all' : String(this.year))
+          .onChange(value => {
+            this.year = value === 'all' ? null : parseInt(value, 10);
+            this.render();
+          });
+      })
+      .addButton(button => button
+        .setButtonText('결산 노트 만들기')
+        .onClick(() => this.plugin.exportReadingReview(this.year)));
+
+    const stats = computeReadingStats(this.entries, this.year);
+
+    // 요약
+    const summaryEl = contentEl.createDiv('reading-stats-summary');
+    this.createStat(summaryEl, '완독', `${stats.books}권`);
+    this.createStat(summaryEl, '읽은 쪽수', `${stats.pages.toLocaleString()}쪽`);
+    this.createStat(summaryEl, '평균 평점', stats.averageRating !== null ? `⭐ ${stats.averageRating}` : '-');
+    this.createStat(summaryEl, `${READING_STATUS_ICONS['읽는 중']} 읽는 중`,
+      `${this.entries.filter(entry => entry.reading.status === '읽는 중').length}권`);
+    this.createStat(summaryEl, `${READING_STATUS_ICONS['읽기 전']} 읽기 전`,
+      `${this.entries.filter(entry => entry.reading.status === '읽기 전').length}권`);
+
+    if (stats.monthly.length > 0) {
+      contentEl.createEl('h4', { text: `${stats.year}년 월별 완독` });
+      this.renderColumnChart(contentEl, stats.monthly, month => `${month}월`);
+    }
+    if (stats.yearly.length > 0) {
+      contentEl.createEl('h4', { text: '연도별 완독' });
+      this.renderColumnChart(contentEl, stats.yearly, year => `${year}`);
+    }
+
+    if (stats.books === 0) {
+      contentEl.createEl('p', {
+        text: '이 기간에 완독한 도서가 없습니다. 도서 노트의 status를 "완독"으로, endDate를 완독일로 기록하면 통계에 포함됩니다.',
+        cls: 'reading-stats-empty'
+      });
+      return;
+    }
+
+    this.renderDistribution(contentEl, '분류 (KDC)', stats.kdcDistribution);
+    this.renderDistribution(contentEl, '많이 읽은 저자', stats.topAuthors);
+    this.renderDistribution(contentEl, '많이 읽은 출판사', stats.topPublishers);
+  }
+
+  /**
+   * 권수 세로 막대 차트 (SVG, 막대에 마우스를 올리면 쪽수 표시)
+   */
+  private renderColumnChart(containerEl: HTMLElement, periods: PeriodCount[], formatLabel: (period: number) => string) {
+    const maxBooks = Math.max(1, ...periods.map(period => period.books));
+    const slotWidth = CHART_WIDTH / periods.length;
+    const barWidth = Math.min(48, slotWidth * 0.6);
+    const plotHeight = CHART_HEIGHT - CHART_LABEL_HEIGHT * 2;
+
+    const svg = containerEl.createSvg('svg', {
+      cls: 'reading-stats-chart',
+      attr: { viewBox: `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`, preserveAspectRatio: 'xMidYMid meet' }
+    });
+
+    periods.forEach((period, index) => {
+      const x = index * slotWidth + (slotWidth - barWidth) / 2;
+      const height = (period.books / maxBooks) * plotHeight;
+      const y = CHART_LABEL_HEIGHT + plotHeight - height;
+      const centerX = x + barWidth / 2;
+
+      const bar = svg.createSvg('rect', {
+        cls: 'reading-stats-bar',
+        attr: { x, y, width: barWidth, height: Math.max(height, period.books > 0 ? 1 : 0), rx: 2 }
+      });
+      bar.createSvg('title').textContent = `${formatLabel(period.period)}: ${period.books}권, ${period.pages.toLocaleString()}쪽`;
+
+      if (period.books > 0) {
+        svg.createSvg('text', { cls: 'reading-stats-value', attr: { x: centerX, y: y - 4, 'text-anchor': 'middle' } })
+          .textContent = String(period.books);
+      }
+      svg.createSvg('text', { cls: 'reading-stats-label', attr: { x: centerX, y: CHART_HEIGHT - 4, 'text-anchor': 'middle' } })
+        .textContent = formatLabel(period.period);
+    });
+  }
+
+  /**
+   * 항목별 가로 막대 (가장 많은 항목 기준 비율)
+   */
+  private renderDistribution(containerEl: HTMLElement, title: string, items: CountItem[]) {
+    if (items.length === 0) return;
+
+    containerEl.createEl('h4', { text: title });
+    const maxCount = Math.max(...items.map(item => item.count));
+    const listEl = containerEl.createDiv('reading-stats-distribution');
+
+    items.forEach(item => {
+      const rowEl = listEl.createDiv('reading-stats-distribution-row');
+      rowEl.createSpan({ text: item.label, cls: 'reading-stats-distribution-label' });
+      const barEl = rowEl.createDiv('reading-stats-hbar');
+      barEl.createDiv('reading-stats-hbar-fill').style.width = `${Math.round((item.count / maxCount) * 100)}%`;
+      rowEl.createSpan({ text: `${item.count}권`, cls: 'reading-stats-distribution-count' });
+    });
+  }
+
+  private createStat(containerEl: HTMLElement, label: string, value: string) {
+    const statEl = containerEl.createDiv('reading-stats-stat');
+    statEl.createDiv({ text: value, cls: 'reading-stats-stat-value' });
+    statEl.createDiv({ text: label, cls: 'reading-stats-stat-label' });
+  }
+}
@@ -0,0 +1,144 @@
+import { App, ButtonComponent, Modal, Setting, SuggestModal } from 'obsidian';
+import { ReadingStatusValue } from '../api/types';
+import { MAX_RATING, READING_STATUSES, READING_STATUS_ICONS, formatProgress } from '../utils/reading-status';
+
+/**
+ * 독서 상태 선택
+ */
+export class ReadingStatusSuggestModal extends SuggestModal<ReadingStatusValue> {
+  constructor(app: App, private current: ReadingStatusValue, private onChoose: (status: ReadingStatusValue) => void) {
+    super(app);
+    this.setPlaceholder('독서 상태를 선택하세요');
+  }
+
+  getSuggestions(query: string): ReadingStatusValue[] {
+    return READING_STATUSES.filter(status => status.includes(query.trim()));
+  }
+
+  renderSuggestion(status: ReadingStatusValue, el: HTMLElement) {
+    el.setText(`${READING_STATUS_ICONS[status]} ${status}${status === this.current ? ' (현재)' : ''}`);
+  }
+
+  onChooseSuggestion(status: ReadingStatusValue) {
+    this.onChoose(status);
+  }
+}
+
+/**
+ * 읽은 쪽수 기록
+ */
+export class ReadingProgressModal extends Modal {
+  private page: number | undefined;
+
+  constructor(
+    app: App,
+    private progress: number | undefined,
+    private pages: number | undefined,
+    private onSubmit: (page: number) => void
+  ) {
+    super(app);
+    this.page = progress;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-reading-modal');
+
+    contentEl.createEl('h2', { text: '📖 읽은 쪽수 기록' });
+    contentEl.createEl('p', { text: `현재 진행도: ${formatProgress(this.progress, this.pages)}`, cls: 'setting-item-description' });
+
+    new Setting(contentEl)
+      .setName('현재 쪽')
+      .setDesc(this.pages ? `전체 ${this.pages}쪽 - 마지막 쪽을 입력하면 완독으로 바뀝니다.` : '')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        if (this.pages) text.inputEl.max = String(this.pages);
+        text
+          .setValue(this.progress !== undefined ? String(this.progress) : '')
+          .onChange(value => {
+            const page = parseInt(value, 10);
+            this.page = isNaN(page) ? undefined : page;
+          });
+        text.inputEl.addEventListener('keydown', event => {
+          if (event.key === 'Enter') {
+            event.preventDefault();
+            this.submit();
+          }
+        });
+        window.setTimeout(() => text.inputEl.select(), 0);
+      });
+
+    const actions = contentEl.createDiv('reading-actions');
+    new ButtonComponent(actions)
+      .setButtonText('기록')
+      .setCta()
+      .onClick(() => this.submit());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private submit() {
+    if (this.page === undefined || this.page < 0) return;
+    this.onSubmit(this.page);
+    this.close();
+  }
+}
+
+/**
+ * 평점 매기기 (별 5개, 같은 별을 다시 누르면 반 개)
+ */
+export class BookRatingModal extends Modal {
+  private rating: number;
+
+  constructor(app: App, rating: number | undefined, private onSubmit: (rating: number) => void) {
+    super(app);
+    this.rating = rating ?? 0;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-reading-modal');
+
+    contentEl.createEl('h2', { text: '⭐ 평점 매기기' });
+    const starsEl = contentEl.createDiv('rating-stars');
+    const valueEl = contentEl.createDiv('rating-value');
+
+    const renderStars = () => {
+      starsEl.empty();
+      for (let star = 1; star <= MAX_RATING; star++) {
+        const filled = this.rating >= star ? '★' : this.rating >= star - 0.5 ? '⯪' : '☆';
+        const starEl = starsEl.createSpan({ text: filled, cls: 'rating-star' });
+        starEl.addEventListener('click', () => {
+          this.rating = this.rating === star ? star - 0.5 : star;
+          renderStars();
+        });
+      }
+      valueEl.setText(this.rating > 0 ? `${this.rating} / ${MAX_RATING}` : '평점 없음');
+    };
+    renderStars();
+
+    const actions = contentEl.createDiv('reading-actions');
+    new ButtonComponent(actions)
+      .setButtonText('평점 지우기')
+      .onClick(() => {
+        this.rating = 0;
+        renderStars();
+      });
+    new ButtonComponent(actions)
+      .setButtonText('저장')
+      .setCta()
+      .onClick(() => {
+        this.onSubmit(this.rating);
+        this.close();
+      });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,28 @@
+import { App, SuggestModal } from 'obsidian';
+
+/**
+ * 독서 결산 연도 선택 (null은 전체 기간)
+ */
+export class ReviewYearSuggestModal extends SuggestModal<number | null> {
+  constructor(app: App, private years: number[], private onChoose: (year: number | null) => void) {
+    super(app);
+    this.setPlaceholder('결산할 연도를 선택하세요');
+  }
+
+  getSuggestions(query: string): (number | null)[] {
+    const options: (number | null)[] = [...this.years, null];
+    return options.filter(year => this.label(year).includes(query.trim()));
+  }
+
+  renderSuggestion(year: number | null, el: HTMLElement) {
+    el.setText(this.label(year));
+  }
+
+  onChooseSuggestion(year: number | null) {
+    this.onChoose(year);
+  }
+
+  private label(year: number | null): string {
+    return year === null ? '전체 기간' : `${year}년`;
+  }
+}
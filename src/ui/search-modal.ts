@@ -1,7 +1,13 @@
-import { App, Modal, Notice, TextComponent, ButtonComponent, Setting } from 'obsidian';
+import { App, Modal, Notice, TextComponent, ButtonComponent, DropdownComponent, Setting } from 'obsidian';
 import { NationalLibraryAPI } from '../api/nlk-api';
-import { Book } from '../api/types';
+import { Book, SearchParams } from '../api/types';
 import KRBookPlugin from '../main';
+import { looksLikeISBN, normalizeISBN } from '../utils/isbn';
+import { hasClientFilters, matchesSearchFilters } from '../utils/book-filter';
+import { BookSortField, SORT_FIELD_LABELS, SortOrder } from '../utils/book-sort';
+import { KDC_MAIN_CLASSES } from '../utils/kdc';
+
+export type SearchType = 'keyword' | 'isbn' | 'fielded';
 
 export class BookSearchModal extends Modal {
   private api: NationalLibraryAPI;
@@ -12,8 +18,14 @@ export class BookSearchModal extends Modal {
   private paginationContainer: HTMLElement;
   private currentPage = 1;
   private totalResults = 0;
-  public searchType: 'keyword' = 'keyword';
+  private pageSize = 20;
+  private lastParams: SearchParams | null = null;
+  private clientSorted = false;
+  private clientFiltered = false;
+  private lookupFilteredOut = false; // ISBN으로 찾은 도서가 필터 조건에 맞지 않아 제외됨
+  public searchType: SearchType = 'keyword';
   private isSearching = false;
+  private searchSequence = 0;
 
   constructor(app: App, plugin: KRBookPlugin) {
     super(app);
@@ -36,32 +48,35 @@ export class BookSearchModal extends Modal {
     // 제목
     contentEl.createEl('h2', { text: '📚 도서 검색' });
 
-    // 검색 방식 안내 (키워드 검색만 제공)
+    // 검색 방식 탭
+    this.createSearchTypeTabs(contentEl);
+
+    // 검색 방식 안내
     const searchInfoContainer = contentEl.createDiv('search-info-container');
-    searchInfoContainer.createEl('p', { 
-      text: '🔍 키워드 검색 - 제목, 저자, 출판사를 통합 검색합니다',
-      cls: 'search-info-text'
-    });
+    this.searchInfoEl = searchInfoContainer.createEl('p', { cls: 'search-info-text' });
 
     // 검색 입력
-    const searchContainer = contentEl.createDiv('search-container');
+    this.searchContainer = contentEl.createDiv('search-container');
     
-    this.searchInput = new TextComponent(searchContainer)
+    this.searchInput = new TextComponent(this.searchContainer)
       .setPlaceholder('검색어를 입력하세요...');
     this.searchInput.inputEl.addClass('search-input');
     
     // Enter 키 이벤트
     this.searchInput.inputEl.addEventListener('keypress', (e) => {
       if (e.key === 'Enter' && !this.isSearching) {
-        this.performSearch();
+        this.performSearch(1);
       }
     });
 
     // 검색 버튼
-    new ButtonComponent(searchContainer)
+    new ButtonComponent(this.searchContainer)
       .setButtonText('🔍 검색')
       .setCta()
-      .onClick(() => this.performSearch());
+      .onClick(() => this.performSearch(1));
+
+    // 상세 검색 폼
+    this.createFieldedSearchForm(contentEl);
 
     // 고급 검색 옵션 (접혀있음)
     this.createAdvancedSearchOptions(contentEl);
@@ -72,7 +87,108 @@ export class BookSearchModal extends Modal {
     // 페이지네이션
     this.paginationContainer = contentEl.createDiv('pagination');
 
-    // 초기 플레이스홀더 설정
+    // 초기 검색 방식 반영
+    this.setSearchType(this.searchType);
+  }
+
+  private createSearchTypeTabs(container: HTMLElement) {
+    const tabsContainer = container.createDiv('search-type-tabs');
+    const tabs: Array<{ type: SearchType; label: string }> = [
+      { type: 'keyword', label: '🔍 키워드' },
+      { type: 'isbn', label: '📘 ISBN' },
+      { type: 'fielded', label: '📋 상세 검색' }
+    ];
+
+    tabs.forEach(({ type, label }) => {
+      const tab = tabsContainer.createEl('button', { text: label, cls: 'search-type-tab' });
+      tab.addEventListener('click', () => this.setSearchType(type));
+      this.searchTypeTabs[type] = tab;
+    });
+  }
+
+  private createFieldedSearchForm(container: HTMLElement) {
+    this.fieldedContainer = container.createDiv('fielded-search');
+
+    const addTextField = (name: string, placeholder: string): TextComponent => {
+      let component!: TextComponent;
+      new Setting(this.fieldedContainer)
+        .setName(name)
+        .addText(text => {
+          component = text.setPlaceholder(placeholder);
+          text.inputEl.addEventListener('keypress', (e) => {
+            if (e.key === 'Enter' && !this.isSearching) {
+              this.performSearch(1);
+            }
+          });
+        });
+      return component;
+    };
+
+    this.fieldInputs = {
+      title: addTextField('제목', '예: 토지'),
+      author: addTextField('저자', '예: 박경리'),
+      publisher: addTextField('출판사', '예: 마로니에북스'),
+      isbn: addTextField('ISBN', '예: 9788936433598')
+    };
+
+    new Setting(this.fieldedContainer)
+      .setName('발행년도')
+      .setDesc('검색 API가 지원하지 않아 현재 페이지 결과에서 걸러냅니다.')
+      .addText(text => {
+        this.yearFromInput = text.setPlaceholder('부터 (예: 2000)');
+        text.inputEl.type = 'number';
+      })
+      .addText(text => {
+        this.yearToInput = text.setPlaceholder('까지 (예: 2024)');
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(this.fieldedContainer)
+      .setName('KDC 주류')
+      .addDropdown(dropdown => {
+        dropdown.addOption('', '전체');
+        Object.entries(KDC_MAIN_CLASSES).forEach(([code, name]) => {
+          dropdown.addOption(code, `${code}00 ${name}`);
+        });
+        this.kdcOption = dropdown;
+      });
+
+    new Setting(this.fieldedContainer)
+      .setName('자료 형태')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('all', '전체')
+          .addOption('print', '종이책만')
+          .addOption('ebook', '전자책만')
+          .setValue('all');
+        this.mediaOption = dropdown;
+      });
+
+    new Setting(this.fieldedContainer)
+      .addButton(button => button
+        .setButtonText('🔍 상세 검색')
+        .setCta()
+        .onClick(() => this.performSearch(1)));
+  }
+
+  private setSearchType(type: SearchType) {
+    this.searchType = type;
+
+    Object.entries(this.searchTypeTabs).forEach(([tabType, tab]) => {
+      tab.toggleClass('is-active', tabType === type);
+    });
+
+    const isFielded = type === 'fielded';
+    this.searchContainer.style.display = isFielded ? 'none' : '';
+    this.fieldedContainer.style.display = isFielded ? '' : 'none';
+
+    const infoText: Record<SearchType, string> = {
+      keyword: '🔍 키워드 검색 - 제목, 저자, 출판사를 통합 검색합니다 (ISBN을 입력하면 ISBN으로 조회합니다)',
+      isbn: '📘 ISBN 검색 - ISBN 서지정보로 정확한 도서를 찾습니다',
+      fielded: '📋 상세 검색 - 제목/저자/출판사/ISBN을 조합하고 발행년도·KDC·자료 형태로 좁힙니다'
+    };
+    this.searchInfoEl.setText(infoText[type]);
+
     this.updateSearchPlaceholder();
   }
 
@@ -96,13 +212,14 @@ export class BookSearchModal extends Modal {
     // 정렬 옵션
     new Setting(optionsContainer)
       .setName('정렬 기준')
+      .setDesc('"현재 페이지만"으로 표시된 기준은 서버가 지원하지 않아 전체 결과가 아닌 현재 페이지 결과만 정렬됩니다.')
       .addDropdown(dropdown => {
-        dropdown
-          .addOption('relevance', '관련도순')
-          .addOption('title', '제목순')
-          .addOption('author', '저자순')
-          .addOption('pub_year', '출간년도순')
-          .setValue('relevance');
+        (Object.keys(SORT_FIELD_LABELS) as BookSortField[]).forEach(field => {
+          const label = SORT_FIELD_LABELS[field];
+          dropdown.addOption(field, this.api.supportsServerSort(field) ? label : `${label} (현재 페이지만)`);
+        });
+        dropdown.setValue('relevance');
+        dropdown.onChange(() => this.rerunLastSearch());
         this.sortOption = dropdown;
       });
 
@@ -114,52 +231,154 @@ export class BookSearchModal extends Modal {
           .addOption('desc', '내림차순')
           .addOption('asc', '오름차순')
           .setValue('desc');
+        dropdown.onChange(() => this.rerunLastSearch());
         this.orderOption = dropdown;
       });
   }
 
   private updateSearchPlaceholder() {
+    if (this.searchType === 'isbn') {
+      this.searchInput.setPlaceholder('📘 ISBN을 입력하세요 (예: 978-89-364-3359-8)');
+      return;
+    }
     this.searchInput.setPlaceholder('🔍 제목, 저자, 출판사 등을 입력하세요 (예: 토지, 박경리, 창비)');
   }
 
-  private async performSearch() {
-    if (this.isSearching) {
-      return;
+  /**
+   * 현재 검색 방식의 입력값으로 검색 조건 생성 (입력이 올바르지 않으면 null)
+   */
+  private buildSearchParams(): SearchParams | null {
+    if (this.searchType === 'fielded') {
+      const yearFrom = parseInt(this.yearFromInput.getValue(), 10);
+      const yearTo = parseInt(this.yearToInput.getValue(), 10);
+      const params: SearchParams = {
+        title: this.fieldInputs.title.getValue().trim() || undefined,
+        author: this.fieldInputs.author.getValue().trim() || undefined,
+        publisher: this.fieldInputs.publisher.getValue().trim() || undefined,
+        isbn: normalizeISBN(this.fieldInputs.isbn.getValue()) || undefined,
+        yearFrom: isNaN(yearFrom) ? undefined : yearFrom,
+        yearTo: isNaN(yearTo) ? undefined : yearTo,
+        kdcClass: this.kdcOption.getValue() || undefined,
+        media: this.mediaOption.getValue() as SearchParams['media']
+      };
+
+      if (!params.title && !params.author && !params.publisher && !params.isbn) {
+        new Notice('⚠️ 제목, 저자, 출판사, ISBN 중 하나 이상을 입력해주세요.');
+        return null;
+      }
+
+      if (params.yearFrom && params.yearTo && params.yearFrom > params.yearTo) {
+        new Notice('⚠️ 발행년도 범위가 올바르지 않습니다.');
+        return null;
+      }
+
+      return params;
     }
 
     const query = this.searchInput.getValue().trim();
     if (!query) {
       new Notice('⚠️ 검색어를 입력해주세요.');
+      return null;
+    }
+
+    const isISBNQuery = looksLikeISBN(query);
+    if (this.searchType === 'isbn' && !isISBNQuery) {
+      new Notice('⚠️ 올바른 ISBN 형식이 아닙니다. (10자리 또는 13자리)');
+      return null;
+    }
+
+    return isISBNQuery ? { isbn: normalizeISBN(query) } : { query };
+  }
+
+  /**
+   * ISBN만으로 이루어진 검색은 seoji 단건 조회로 처리
+   */
+  private isISBNLookup(params: SearchParams): boolean {
+    return !!params.isbn && !params.query && !params.title && !params.author && !params.publisher;
+  }
+
+  /**
+   * 검색 조건을 사람이 읽을 수 있는 문자열로 변환
+   */
+  private describeParams(params: SearchParams): string {
+    const parts = [
+      params.query,
+      params.title && `제목: ${params.title}`,
+      params.author && `저자: ${params.author}`,
+      params.publisher && `출판사: ${params.publisher}`,
+      params.isbn && `ISBN: ${params.isbn}`
+    ].filter(Boolean);
+    return parts.join(', ');
+  }
+
+  /**
+   * 검색 실행 - baseParams를 지정하면 마지막 검색 조건으로 해당 페이지를 다시 조회
+   */
+  private async performSearch(page = 1, baseParams?: SearchParams) {
+    if (this.isSearching) {
+      return;
+    }
+
+    const params = baseParams || this.buildSearchParams();
+    if (!params) {
       return;
     }
 
     this.isSearching = true;
+    this.currentPage = page;
+    this.lastParams = params;
+    const sequence = ++this.searchSequence;
     this.resultsContainer.empty();
+    this.paginationContainer.empty();
     
     // 로딩 표시
     const loadingEl = this.resultsContainer.createEl('div', { 
       cls: 'loading-container' 
     });
     loadingEl.createEl('div', { text: '🔍 검색 중...', cls: 'loading-text' });
-    loadingEl.createEl('div', { text: `"${query}" 관련 도서를 찾고 있습니다.`, cls: 'loading-subtext' });
+    loadingEl.createEl('div', { text: `"${this.describeParams(params)}" 관련 도서를 찾고 있습니다.`, cls: 'loading-subtext' });
 
     try {
-      console.log(`🔍 Starting keyword search: "${query}"`);
+      if (this.isISBNLookup(params)) {
+        console.log(`📘 Starting ISBN lookup: "${params.isbn}"`);
+
+        // 상세 검색의 발행년도·KDC·자료 형태 필터도 조회 결과에 적용
+        const book = await this.api.lookupByISBN(params.isbn!);
+        this.lookupFilteredOut = !!book && hasClientFilters(params) && !matchesSearchFilters(book, params);
+        this.searchResults = book && !this.lookupFilteredOut ? [book] : [];
+        this.totalResults = this.searchResults.length;
+        this.currentPage = 1;
+        this.clientSorted = false;
+        this.clientFiltered = false;
+        console.log(`✅ ISBN lookup found ${this.totalResults} books`);
+
+        this.displayResults();
+        this.enrichResults(sequence);
+        return;
+      }
+
+      console.log(`🔍 Starting ${this.searchType} search:`, params);
       
-      // 키워드 검색만 제공
-      const searchParams = {
-        query,
-        pageNum: this.currentPage,
+      const searchParams: SearchParams = {
+        ...params,
+        pageNum: page,
         pageSize: this.plugin.settings.searchResultLimit,
-        sort: this.sortOption?.getValue() as any,
-        order: this.orderOption?.getValue() as any
+        sort: this.sortOption?.getValue() as BookSortField | undefined,
+        order: this.orderOption?.getValue() as SortOrder | undefined
       };
 
-      this.searchResults = await this.api.searchBooks(searchParams);
-      this.totalResults = this.searchResults.length;
-      console.log(`✅ Keyword search found ${this.totalResults} books`);
+      const result = await this.api.searchBooks(searchParams);
+      this.lookupFilteredOut = false;
+      this.searchResults = result.books;
+      this.totalResults = result.total;
+      this.currentPage = result.pageNum;
+      this.pageSize = result.pageSize;
+      this.clientSorted = !!result.clientSorted;
+      this.clientFiltered = !!result.clientFiltered;
+      console.log(`✅ Search found ${this.totalResults} books (page ${this.currentPage})`);
 
       this.displayResults();
+      this.enrichResults(sequence);
     } catch (error) {
       console.error('❌ Search error:', error);
       this.resultsContainer.empty();
@@ -171,7 +390,7 @@ export class BookSearchModal extends Modal {
       // 다시 시도 버튼
       new ButtonComponent(errorContainer)
         .setButtonText('🔄 다시 시도')
-        .onClick(() => this.performSearch());
+        .onClick(() => this.performSearch(this.currentPage, params));
 
       new Notice('❌ 검색 실패: ' + error.message);
     } finally {
@@ -179,31 +398,75 @@ export class BookSearchModal extends Modal {
     }
   }
 
+  /**
+   * 카카오 정보로 현재 결과를 보강한 뒤 다시 표시 (그 사이 새 검색이 시작되면 무시)
+   */
+  private async enrichResults(sequence: number) {
+    if (!this.plugin.isKakaoEnrichmentEnabled() || this.searchResults.length === 0) {
+      return;
+    }
+
+    const enriched = await this.plugin.createIntegrationService().enrichBooks(this.searchResults);
+    if (sequence !== this.searchSequence) {
+      return;
+    }
+
+    this.searchResults = enriched;
+    this.displayResults();
+  }
+
   private displayResults() {
     this.resultsContainer.empty();
 
     if (this.searchResults.length === 0) {
       const noResultsContainer = this.resultsContainer.createEl('div', { cls: 'no-results-container' });
       noResultsContainer.createEl('div', { text: '📭 검색 결과가 없습니다', cls: 'no-results-title' });
-      noResultsContainer.createEl('div', { text: '다른 키워드로 검색해보세요.', cls: 'no-results-suggestion' });
-      
+      noResultsContainer.createEl('div', {
+        text: this.lookupFilteredOut
+          ? 'ISBN으로 찾은 도서가 발행년도·KDC·자료 형태 필터 조건에 맞지 않습니다.'
+          : this.clientFiltered && this.totalResults > 0
+            ? '이 페이지에는 필터 조건에 맞는 도서가 없습니다. 다른 페이지를 확인해보세요.'
+            : '다른 키워드로 검색해보세요.',
+        cls: 'no-results-suggestion'
+      });
+
+      if (this.clientFiltered) {
+        this.updatePagination();
+      }
       return;
     }
 
     // 결과 헤더
     const resultsHeader = this.resultsContainer.createEl('div', { cls: 'results-header' });
+    const firstIndex = (this.currentPage - 1) * this.pageSize + 1;
+    const lastIndex = firstIndex + this.searchResults.length - 1;
     resultsHeader.createEl('h3', { 
-      text: `📚 검색 결과 (${this.searchResults.length}권)`,
+      text: `📚 검색 결과 ${firstIndex}–${lastIndex} / 총 ${this.totalResults.toLocaleString()}권`,
       cls: 'results-title'
     });
 
+    if (this.clientFiltered) {
+      resultsHeader.createEl('div', {
+        text: `🧹 발행년도·KDC·자료 형태 필터는 현재 페이지 결과에 적용되었습니다. (전체 건수는 필터 적용 전 기준)`,
+        cls: 'client-sort-notice'
+      });
+    }
+
+    if (this.clientSorted) {
+      const sortLabel = SORT_FIELD_LABELS[this.sortOption.getValue() as BookSortField];
+      resultsHeader.createEl('div', {
+        text: `↕️ ${sortLabel} 정렬은 서버에서 지원되지 않아 현재 페이지 결과만 플러그인에서 정렬했습니다.`,
+        cls: 'client-sort-notice'
+      });
+    }
+
     // 검색 결과 표시
     this.searchResults.forEach((book, index) => {
       const resultItem = this.resultsContainer.createDiv('result-item');
       
       // 순번 표시
       const indexEl = resultItem.createEl('div', { 
-        text: `${index + 1}`,
+        text: `${firstIndex + index}`,
         cls: 'result-index'
       });
 
@@ -297,20 +560,35 @@ export class BookSearchModal extends Modal {
   private updatePagination() {
     this.paginationContainer.empty();
     
-    if (this.totalResults <= this.plugin.settings.searchResultLimit) {
+    if (this.totalResults <= this.pageSize) {
       return;
     }
 
-    const totalPages = Math.ceil(this.totalResults / this.plugin.settings.searchResultLimit);
+    const totalPages = Math.ceil(this.totalResults / this.pageSize);
     const paginationEl = this.paginationContainer.createDiv('pagination-controls');
     
     if (this.currentPage > 1) {
+      new ButtonComponent(paginationEl)
+        .setButtonText('⏮️')
+        .setTooltip('첫 페이지')
+        .onClick(() => this.goToPage(1));
+
       new ButtonComponent(paginationEl)
         .setButtonText('⬅️ 이전')
-        .onClick(() => {
-          this.currentPage--;
-          this.performSearch();
-        });
+        .onClick(() => this.goToPage(this.currentPage - 1));
+    }
+
+    // 현재 페이지 주변 번호 버튼 (최대 5개)
+    const windowStart = Math.max(1, Math.min(this.currentPage - 2, totalPages - 4));
+    const windowEnd = Math.min(totalPages, windowStart + 4);
+    for (let page = windowStart; page <= windowEnd; page++) {
+      const pageButton = new ButtonComponent(paginationEl)
+        .setButtonText(`${page}`)
+        .onClick(() => this.goToPage(page));
+      if (page === this.currentPage) {
+        pageButton.setCta();
+        pageButton.setDisabled(true);
+      }
     }
 
     paginationEl.createEl('span', { 
@@ -321,11 +599,56 @@ export class BookSearchModal extends Modal {
     if (this.currentPage < totalPages) {
       new ButtonComponent(paginationEl)
         .setButtonText('다음 ➡️')
-        .onClick(() => {
-          this.currentPage++;
-          this.performSearch();
-        });
+        .onClick(() => this.goToPage(this.currentPage + 1));
+
+      new ButtonComponent(paginationEl)
+        .setButtonText('⏭️')
+        .setTooltip('마지막 페이지')
+        .onClick(() => this.goToPage(totalPages));
     }
+
+    // 페이지 바로 이동
+    const jumpEl = this.paginationContainer.createDiv('pagination-jump');
+    const jumpInput = new TextComponent(jumpEl).setPlaceholder('페이지');
+    jumpInput.inputEl.type = 'number';
+    jumpInput.inputEl.min = '1';
+    jumpInput.inputEl.max = `${totalPages}`;
+    jumpInput.inputEl.addClass('page-jump-input');
+
+    const jump = () => {
+      const page = parseInt(jumpInput.getValue(), 10);
+      if (isNaN(page) || page < 1 || page > totalPages) {
+        new Notice(`⚠️ 1부터 ${totalPages} 사이의 페이지를 입력해주세요.`);
+        return;
+      }
+      this.goToPage(page);
+    };
+
+    jumpInput.inputEl.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        jump();
+      }
+    });
+
+    new ButtonComponent(jumpEl)
+      .setButtonText('이동')
+      .onClick(jump);
+  }
+
+  /**
+   * 정렬 조건 변경 시 마지막 검색을 첫 페이지부터 다시 실행
+   */
+  private rerunLastSearch() {
+    if (this.lastParams && !this.isISBNLookup(this.lastParams)) {
+      this.performSearch(1, this.lastParams);
+    }
+  }
+
+  private goToPage(page: number) {
+    if (page === this.currentPage || !this.lastParams) {
+      return;
+    }
+    this.performSearch(page, this.lastParams);
   }
 
   private async createBookNote(book: Book) {
@@ -335,12 +658,21 @@ export class BookSearchModal extends Modal {
       // 로딩 표시
       const notice = new Notice('📝 노트를 생성하는 중...', 0);
       
-      await this.plugin.createBookNote(book);
+      const result = await this.plugin.createBookNote(book);
       
       notice.hide();
+      if (!result) {
+        return;
+      }
       this.close();
       
-      new Notice(`✅ "${book.title}" 노트가 생성되었습니다.`, 5000);
+      const messages = {
+        created: `✅ "${book.title}" 노트가 생성되었습니다.`,
+        opened: `📖 기존 "${book.title}" 노트를 열었습니다.`,
+        refreshed: `🔄 "${book.title}" 노트의 메타데이터를 새로고침했습니다.`,
+        skipped: `ℹ️ "${book.title}" 노트가 이미 있습니다.`
+      };
+      new Notice(messages[result.action], 5000);
     } catch (error) {
       console.error('❌ Note creation error:', error);
       new Notice('❌ 노트 생성 실패: ' + error.message);
@@ -353,7 +685,20 @@ export class BookSearchModal extends Modal {
   }
 
 
+  // 검색 방식 UI 참조
+  private searchInfoEl: HTMLElement;
+  private searchContainer: HTMLElement;
+  private fieldedContainer: HTMLElement;
+  private searchTypeTabs: Partial<Record<SearchType, HTMLElement>> = {};
+
+  // 상세 검색 폼 참조
+  private fieldInputs: Record<'title' | 'author' | 'publisher' | 'isbn', TextComponent>;
+  private yearFromInput: TextComponent;
+  private yearToInput: TextComponent;
+  private kdcOption: DropdownComponent;
+  private mediaOption: DropdownComponent;
+
   // 고급 검색 옵션 참조
-  private sortOption: any;
-  private orderOption: any;
+  private sortOption: DropdownComponent;
+  private orderOption: DropdownComponent;
 }
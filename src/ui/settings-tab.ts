@@ -1,6 +1,19 @@
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, DropdownComponent, PluginSettingTab, Setting, Notice } from 'obsidian';
 import KRBookPlugin from '../main';
 import { NationalLibraryAPI } from '../api/nlk-api';
+import { TOC_STRATEGIES } from '../api/toc-strategies';
+import { TOCCacheModal } from './toc-cache-modal';
+import { TOC_RENDER_STYLE_LABELS, TOCRenderStyle } from '../utils/toc-renderer';
+import { CITATION_STYLE_LABELS, CitationStyle } from '../utils/citation';
+import { GOAL_UNIT_LABELS, GoalUnit } from '../utils/reading-goals';
+import { BookNoteTemplate } from '../utils/template';
+import {
+  TEMPLATE_RULE_LABELS,
+  TemplateRule,
+  TemplateRuleCondition,
+  getTemplateName,
+  listTemplateFiles
+} from '../utils/note-templates';
 
 export class KRBookSettingTab extends PluginSettingTab {
   plugin: KRBookPlugin;
@@ -44,6 +57,30 @@ export class KRBookSettingTab extends PluginSettingTab {
 
 
 
+    // 카카오 연동 설정
+    containerEl.createEl('h3', { text: '🥕 카카오 도서 연동' });
+
+    new Setting(containerEl)
+      .setName('카카오 REST API 키')
+      .setDesc('카카오 개발자 센터에서 발급받은 REST API 키를 입력하면 표지, 책 소개, 가격, 역자 정보를 보강합니다.')
+      .addText(text => text
+        .setPlaceholder('REST API 키 입력')
+        .setValue(this.plugin.settings.kakaoApiKey)
+        .onChange(async (value) => {
+          this.plugin.settings.kakaoApiKey = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('검색 결과 카카오 정보 보강')
+      .setDesc('검색 결과와 생성하는 노트에 카카오 도서 정보를 함께 가져옵니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableKakaoEnrichment)
+        .onChange(async (value) => {
+          this.plugin.settings.enableKakaoEnrichment = value;
+          await this.plugin.saveSettings();
+        }));
+
     // 구분선
     containerEl.createEl('h3', { text: '📁 노트 설정' });
 
@@ -94,6 +131,27 @@ export class KRBookSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('표지 이미지 저장')
+      .setDesc('노트를 만들 때 표지를 아래 폴더에 ISBN 이름으로 내려받아 ![[...]]로 넣습니다. 표지가 없으면 제목/저자로 만든 대체 표지를 넣습니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.downloadCovers)
+        .onChange(async (value) => {
+          this.plugin.settings.downloadCovers = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('표지 저장 폴더')
+      .setDesc('내려받은 표지와 대체 표지를 저장할 폴더입니다.')
+      .addText(text => text
+        .setPlaceholder('Books/covers')
+        .setValue(this.plugin.settings.coverFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.coverFolder = value;
+          await this.plugin.saveSettings();
+        }));
+
     // 파일명 템플릿
     new Setting(containerEl)
       .setName('파일명 템플릿')
@@ -106,6 +164,25 @@ export class KRBookSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('기본 인용 스타일')
+      .setDesc('"인용 삽입" 명령에서 처음 선택되는 스타일입니다. 템플릿에서는 {{citation:apa}}처럼 스타일을 지정해 사용합니다.')
+      .addDropdown(dropdown => {
+        Object.entries(CITATION_STYLE_LABELS).forEach(([value, label]) => dropdown.addOption(value, label));
+        dropdown
+          .setValue(this.plugin.settings.citationStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.citationStyle = value as CitationStyle;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // 독서 목표
+    this.displayGoalSettings(containerEl);
+
+    // 목차 설정
+    this.displayTOCSettings(containerEl);
+
     // 노트 템플릿 설정
     containerEl.createEl('h3', { text: '노트 템플릿' });
     
@@ -128,11 +205,42 @@ export class KRBookSettingTab extends PluginSettingTab {
           <li>{{callNumber}} - 청구기호</li>
           <li>{{series}} - 시리즈명</li>
           <li>{{volume}} - 권차</li>
+          <li>{{edition}} - 판사항</li>
+          <li>{{size}} - 크기</li>
+          <li>{{eaAddCode}} - ISBN 부가기호</li>
+          <li>{{form}} - 발행형태</li>
+          <li>{{cip}} - CIP 여부 (Y/N)</li>
+          <li>{{tocUrl}} - 목차 파일 URL</li>
+          <li>{{introductionUrl}} - 책 소개 파일 URL</li>
+          <li>{{summaryUrl}} - 책 요약 파일 URL</li>
           <li>{{summary}} - 책 소개</li>
-          <li>{{tableOfContents}} - 목차</li>
+          <li>{{coverImage}} - 표지 이미지 URL</li>
+          <li>{{coverEmbed}} - 표지 임베드 (저장한 표지는 ![[...]], 아니면 원격 이미지)</li>
+          <li>{{localCover}} - 볼트에 저장한 표지 경로</li>
+          <li>{{translators}} - 역자</li>
+          <li>{{kakaoUrl}} - 카카오 도서 링크</li>
+          <li>{{kakaoThumbnail}} - 카카오 표지 이미지</li>
+          <li>{{kakaoContents}} - 카카오 책 소개</li>
+          <li>{{kakaoPrice}} / {{kakaoSalePrice}} - 카카오 정가 / 판매가</li>
+          <li>{{tableOfContents}} - 목차 (설정한 표시 형식)</li>
+          <li>{{tocList}}, {{tocHeadings}}, {{tocChecklist}}, {{tocTable}} - 형식별 목차</li>
+          <li>{{citation:apa}}, {{citation:chicago}}, {{citation:mla}}, {{citation:korean}} - 스타일별 인용문</li>
           <li>{{date}} - 현재 날짜</li>
         </ul>
       </details>
+      <details>
+        <summary>블록과 필터</summary>
+        <ul>
+          <li>{{#if series}}...{{else if volume}}...{{else}}...{{/if}} - 조건 (중첩 가능)</li>
+          <li>{{#unless summary}}...{{/unless}} - 값이 없을 때</li>
+          <li>{{#each authors}}{{this}}{{/each}} - 목록 반복 (authors, translators, toc), {{@index}}/{{@number}}/{{@first}}/{{@last}}</li>
+          <li>{{#each toc}}{{indent}}- {{label}} {{page}}{{/each}} - 목차 항목 (title, numbering, label, page, level, kind, indent)</li>
+          <li>{{title | upper}}, {{title | lower}}, {{title | trim}}, {{summary | truncate:100}}</li>
+          <li>{{publishDate | date:"YYYY년 M월"}} - 날짜 형식</li>
+          <li>{{author | wikilink}}, {{authors | wikilink | join:" · "}} - 위키링크</li>
+          <li>{{series | default:"단행본"}}, {{authors | first}}, {{authors | last}}</li>
+        </ul>
+      </details>
     `;
 
     new Setting(containerEl)
@@ -144,11 +252,20 @@ export class KRBookSettingTab extends PluginSettingTab {
           .onChange(async (value) => {
             this.plugin.settings.noteTemplate = value;
             await this.plugin.saveSettings();
+            showTemplateError(value);
           });
         text.inputEl.rows = 20;
         text.inputEl.cols = 60;
       });
 
+    // 템플릿 문법 오류 표시 (저장은 그대로 하고 노트 생성 시에도 같은 오류를 알림)
+    const templateErrorEl = containerEl.createDiv('template-error');
+    const showTemplateError = (template: string) => {
+      const error = BookNoteTemplate.validate(template);
+      templateErrorEl.setText(error ? `⚠️ ${error}` : '');
+    };
+    showTemplateError(this.plugin.settings.noteTemplate);
+
     // 템플릿 초기화 버튼
     new Setting(containerEl)
       .addButton(button => button
@@ -161,5 +278,315 @@ export class KRBookSettingTab extends PluginSettingTab {
           this.display(); // 화면 새로고침
           new Notice('템플릿이 기본값으로 초기화되었습니다.');
         }));
+
+    // 템플릿 파일과 선택 규칙
+    this.displayTemplateFileSettings(containerEl);
+  }
+
+  /**
+   * 템플릿 파일 설정 - 볼트 폴더의 템플릿, 기본 템플릿, 노트 생성 시 선택, 자동 선택 규칙
+   */
+  private displayTemplateFileSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: '템플릿 파일' });
+
+    const folderPath = BookNoteTemplate.normalizeFolderPath(this.plugin.settings.templateFolder);
+    const templates = listTemplateFiles(this.app, folderPath).map(file => file.path);
+    const addTemplateOptions = (dropdown: DropdownComponent, current: string) => {
+      dropdown.addOption('', '설정의 노트 템플릿');
+      templates.forEach(path => dropdown.addOption(path, getTemplateName(path)));
+      // 폴더에서 사라진 파일도 설정값은 그대로 보이게 함
+      if (current && !templates.includes(current)) {
+        dropdown.addOption(current, `${getTemplateName(current)} (없음)`);
+      }
+      dropdown.setValue(current);
+    };
+
+    new Setting(containerEl)
+      .setName('템플릿 폴더')
+      .setDesc(`이 폴더의 마크다운 파일을 노트 템플릿으로 씁니다. 문법은 위 노트 템플릿과 같습니다. 노트 폴더 밖에 두세요. (템플릿 ${templates.length}개)`)
+      .addText(text => text
+        .setPlaceholder('Templates/Books')
+        .setValue(this.plugin.settings.templateFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.templateFolder = value;
+          await this.plugin.saveSettings();
+        }))
+      .addExtraButton(button => button
+        .setIcon('refresh-cw')
+        .setTooltip('템플릿 목록 새로고침')
+        .onClick(() => this.display()));
+
+    new Setting(containerEl)
+      .setName('기본 템플릿')
+      .setDesc('아래 규칙에 맞지 않는 도서에 쓸 템플릿입니다.')
+      .addDropdown(dropdown => {
+        addTemplateOptions(dropdown, this.plugin.settings.defaultTemplate);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.defaultTemplate = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('노트 생성 시 템플릿 선택')
+      .setDesc('검색 결과로 노트를 만들 때 템플릿을 고르는 창을 띄웁니다. 규칙으로 정해진 템플릿이 맨 위에 표시됩니다. 일괄 가져오기는 항상 규칙을 따릅니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.chooseTemplateOnCreate)
+        .onChange(async (value) => {
+          this.plugin.settings.chooseTemplateOnCreate = value;
+          await this.plugin.saveSettings();
+        }));
+
+    containerEl.createDiv('setting-item-description').setText(
+      '템플릿 선택 규칙은 위에서부터 차례로 확인해 처음 맞는 규칙의 템플릿을 씁니다. 사용한 템플릿 파일은 노트 프론트매터의 template에 기록되고, 메타데이터 새로고침도 그 템플릿을 기준으로 합니다.'
+    );
+
+    const rules = this.plugin.settings.templateRules;
+    rules.forEach((rule, index) => {
+      const setting = new Setting(containerEl)
+        .setName(`${index + 1}.`)
+        .addDropdown(dropdown => {
+          (Object.keys(TEMPLATE_RULE_LABELS) as TemplateRuleCondition[])
+            .forEach(condition => dropdown.addOption(condition, TEMPLATE_RULE_LABELS[condition]));
+          dropdown
+            .setValue(rule.condition)
+            .onChange(async (value) => {
+              await this.updateTemplateRule(index, { condition: value as TemplateRuleCondition });
+              this.display();
+            });
+        });
+
+      if (rule.condition === 'kdc') {
+        setting.addText(text => text
+          .setPlaceholder('800')
+          .setValue(rule.value)
+          .onChange(async (value) => {
+            await this.updateTemplateRule(index, { value: value.trim() });
+          }));
+      }
+
+      setting
+        .addDropdown(dropdown => {
+          addTemplateOptions(dropdown, rule.template);
+          dropdown.onChange(async (value) => {
+            await this.updateTemplateRule(index, { template: value });
+          });
+        })
+        .addExtraButton(button => button
+          .setIcon('arrow-up')
+          .setTooltip('위로')
+          .setDisabled(index === 0)
+          .onClick(() => this.moveTemplateRule(index, -1)))
+        .addExtraButton(button => button
+          .setIcon('arrow-down')
+          .setTooltip('아래로')
+          .setDisabled(index === rules.length - 1)
+          .onClick(() => this.moveTemplateRule(index, 1)))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('규칙 삭제')
+          .onClick(async () => {
+            this.plugin.settings.templateRules = this.plugin.settings.templateRules.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('규칙 추가')
+        .onClick(async () => {
+          this.plugin.settings.templateRules = [...this.plugin.settings.templateRules, { condition: 'kdc', value: '800', template: '' }];
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+  }
+
+  /**
+   * 템플릿 선택 규칙 하나 변경
+   */
+  private async updateTemplateRule(index: number, changes: Partial<TemplateRule>): Promise<void> {
+    this.plugin.settings.templateRules = this.plugin.settings.templateRules
+      .map((rule, i) => i === index ? { ...rule, ...changes } : rule);
+    await this.plugin.saveSettings();
+  }
+
+  /**
+   * 템플릿 선택 규칙 순서 변경
+   */
+  private async moveTemplateRule(index: number, offset: number): Promise<void> {
+    const rules = [...this.plugin.settings.templateRules];
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.plugin.settings.templateRules = rules;
+    await this.plugin.saveSettings();
+    this.display();
+  }
+
+  /**
+   * 독서 목표 설정 (목표량이 0이면 사용 안 함)
+   */
+  private displayGoalSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: '🎯 독서 목표' });
+
+    const goalSetting = (name: string, desc: string, key: 'yearlyGoal' | 'monthlyGoal') => new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        text
+          .setPlaceholder('0')
+          .setValue(this.plugin.settings[key].target > 0 ? String(this.plugin.settings[key].target) : '')
+          .onChange(async (value) => {
+            const target = parseInt(value, 10);
+            this.plugin.settings[key] = { ...this.plugin.settings[key], target: target > 0 ? target : 0 };
+            await this.plugin.saveSettings();
+            this.plugin.updateGoalStatusBar();
+          });
+      })
+      .addDropdown(dropdown => {
+        (Object.keys(GOAL_UNIT_LABELS) as GoalUnit[]).forEach(unit => dropdown.addOption(unit, GOAL_UNIT_LABELS[unit]));
+        dropdown
+          .setValue(this.plugin.settings[key].unit)
+          .onChange(async (value) => {
+            this.plugin.settings[key] = { ...this.plugin.settings[key], unit: value as GoalUnit };
+            await this.plugin.saveSettings();
+            this.plugin.updateGoalStatusBar();
+          });
+      });
+
+    goalSetting('연간 목표', '올해 완독할 권수 또는 쪽수입니다. 비워 두면 사용하지 않습니다.', 'yearlyGoal');
+    goalSetting('월간 목표', '이번 달 완독할 권수 또는 쪽수입니다. 연속 달성 기록도 이 목표를 기준으로 셉니다.', 'monthlyGoal');
+
+    new Setting(containerEl)
+      .setName('상태 표시줄에 목표 표시')
+      .setDesc('연간 목표(없으면 월간 목표)의 달성도를 상태 표시줄에 보여줍니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showGoalInStatusBar)
+        .onChange(async (value) => {
+          this.plugin.settings.showGoalInStatusBar = value;
+          await this.plugin.saveSettings();
+          this.plugin.updateGoalStatusBar();
+        }));
+  }
+
+  /**
+   * 목차 설정 - 가져오기 여부와 추출 전략 사용/순서
+   */
+  private displayTOCSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: '📑 목차 설정' });
+
+    new Setting(containerEl)
+      .setName('노트 생성 시 목차 가져오기')
+      .setDesc('국립중앙도서관과 카카오에서 목차를 찾아 {{tableOfContents}}에 넣습니다. 노트 생성이 몇 초 늦어질 수 있습니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.fetchTableOfContents)
+        .onChange(async (value) => {
+          this.plugin.settings.fetchTableOfContents = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('목차 표시 형식')
+      .setDesc('{{tableOfContents}}에 넣을 목차 형식입니다. 형식별 변수 {{tocList}}, {{tocHeadings}}, {{tocChecklist}}, {{tocTable}}도 사용할 수 있습니다.')
+      .addDropdown(dropdown => {
+        Object.entries(TOC_RENDER_STYLE_LABELS).forEach(([value, label]) => dropdown.addOption(value, label));
+        dropdown
+          .setValue(this.plugin.settings.tocRenderStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.tocRenderStyle = value as TOCRenderStyle;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('목차 캐시 사용')
+      .setDesc('ISBN/CONTROL_NO별로 찾은 목차와 목차가 없다는 결과를 저장해 같은 도서를 다시 조회하지 않습니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableTOCCache)
+        .onChange(async (value) => {
+          this.plugin.settings.enableTOCCache = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('캐시 관리')
+        .onClick(() => new TOCCacheModal(this.app, this.plugin).open()));
+
+    new Setting(containerEl)
+      .setName('목차 캐시 보관 기간 (일)')
+      .setDesc('찾은 목차 / 목차 없음 결과를 보관할 기간입니다. 목차 없음 결과는 짧게 두어야 나중에 등록된 목차를 다시 찾을 수 있습니다.')
+      .addText(text => text
+        .setPlaceholder('90')
+        .setValue(String(this.plugin.settings.tocCacheTTLDays))
+        .onChange(async (value) => {
+          const days = parseInt(value, 10);
+          if (days > 0) {
+            this.plugin.settings.tocCacheTTLDays = days;
+            await this.plugin.saveSettings();
+          }
+        }))
+      .addText(text => text
+        .setPlaceholder('7')
+        .setValue(String(this.plugin.settings.tocCacheEmptyTTLDays))
+        .onChange(async (value) => {
+          const days = parseInt(value, 10);
+          if (days > 0) {
+            this.plugin.settings.tocCacheEmptyTTLDays = days;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    containerEl.createDiv('setting-item-description').setText(
+      '목차 추출 방법을 위에서부터 차례로 시도합니다. 신뢰도가 충분히 높은 목차를 찾으면 나머지 방법은 건너뜁니다.'
+    );
+
+    const strategies = this.plugin.settings.tocStrategies;
+    strategies.forEach((entry, index) => {
+      const strategy = TOC_STRATEGIES.find(s => s.name === entry.name);
+      if (!strategy) return;
+
+      const requirements = [
+        strategy.requires.controlNo ? 'CONTROL_NO' : '',
+        strategy.requires.isbn ? 'ISBN' : '',
+        strategy.requires.kakaoUrl ? '카카오 URL' : ''
+      ].filter(Boolean).join(', ');
+
+      new Setting(containerEl)
+        .setName(`${index + 1}. ${strategy.label}`)
+        .setDesc(requirements ? `필요 정보: ${requirements}` : '')
+        .addExtraButton(button => button
+          .setIcon('arrow-up')
+          .setTooltip('위로')
+          .setDisabled(index === 0)
+          .onClick(() => this.moveTOCStrategy(index, -1)))
+        .addExtraButton(button => button
+          .setIcon('arrow-down')
+          .setTooltip('아래로')
+          .setDisabled(index === strategies.length - 1)
+          .onClick(() => this.moveTOCStrategy(index, 1)))
+        .addToggle(toggle => toggle
+          .setValue(entry.enabled)
+          .onChange(async (value) => {
+            entry.enabled = value;
+            await this.plugin.saveSettings();
+          }));
+    });
+  }
+
+  /**
+   * 목차 추출 전략 순서 변경
+   */
+  private async moveTOCStrategy(index: number, offset: number): Promise<void> {
+    const strategies = [...this.plugin.settings.tocStrategies];
+    const target = index + offset;
+    if (target < 0 || target >= strategies.length) return;
+
+    [strategies[index], strategies[target]] = [strategies[target], strategies[index]];
+    this.plugin.settings.tocStrategies = strategies;
+    await this.plugin.saveSettings();
+    this.display();
   }
 }
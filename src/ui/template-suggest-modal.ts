@@ -0,0 +1,53 @@
+import { App, SuggestModal } from 'obsidian';
+import { getTemplateName } from '../utils/note-templates';
+
+/**
+ * 노트 템플릿 선택 ('' 는 설정의 노트 템플릿, 닫으면 null)
+ * 규칙이나 기본값으로 정해진 템플릿을 맨 위에 표시
+ */
+export class TemplateSuggestModal extends SuggestModal<string> {
+  private chosen = false;
+  private resolve: (path: string | null) => void = () => {};
+
+  constructor(app: App, private templates: string[], private suggested: string, private reason: string) {
+    super(app);
+    this.setPlaceholder('노트 템플릿을 선택하세요');
+  }
+
+  choose(): Promise<string | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  getSuggestions(query: string): string[] {
+    const options = [this.suggested, ...['', ...this.templates].filter(path => path !== this.suggested)];
+    return options.filter(path => this.label(path).toLowerCase().includes(query.trim().toLowerCase()));
+  }
+
+  renderSuggestion(path: string, el: HTMLElement) {
+    el.createDiv({ text: this.label(path) });
+    if (path === this.suggested) {
+      el.createEl('small', { text: this.reason, cls: 'template-suggestion-note' });
+    } else if (path) {
+      el.createEl('small', { text: path, cls: 'template-suggestion-note' });
+    }
+  }
+
+  onChooseSuggestion(path: string) {
+    this.chosen = true;
+    this.resolve(path);
+  }
+
+  onClose() {
+    // onChooseSuggestion보다 먼저 호출되므로 선택 여부는 다음 틱에 확인
+    setTimeout(() => {
+      if (!this.chosen) this.resolve(null);
+    }, 0);
+  }
+
+  private label(path: string): string {
+    return path ? getTemplateName(path) : '설정의 노트 템플릿';
+  }
+}
@@ -0,0 +1,84 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import KRBookPlugin from '../main';
+import { getTOCStrategyLabel } from '../api/toc-strategies';
+
+/**
+ * 목차 캐시 보기/삭제 모달
+ */
+export class TOCCacheModal extends Modal {
+  private plugin: KRBookPlugin;
+
+  constructor(app: App, plugin: KRBookPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-toc-cache-modal');
+
+    const cache = this.plugin.tocCache;
+    const entries = cache.list();
+
+    contentEl.createEl('h2', { text: '🗂️ 목차 캐시' });
+    contentEl.createEl('p', {
+      text: `저장된 항목 ${entries.length}개 (찾은 목차 ${entries.filter(e => e.status === 'found').length}개, 목차 없음 ${entries.filter(e => e.status === 'empty').length}개)`,
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('만료 항목 정리')
+        .onClick(async () => {
+          const removed = cache.pruneExpired();
+          await this.plugin.saveSettings();
+          new Notice(`만료된 목차 캐시 ${removed}개를 삭제했습니다.`);
+          this.render();
+        }))
+      .addButton(button => button
+        .setButtonText('전체 삭제')
+        .setWarning()
+        .setDisabled(entries.length === 0)
+        .onClick(async () => {
+          cache.clear();
+          await this.plugin.saveSettings();
+          new Notice('목차 캐시를 모두 삭제했습니다.');
+          this.render();
+        }));
+
+    if (entries.length === 0) {
+      contentEl.createEl('p', { text: '저장된 목차 캐시가 없습니다.', cls: 'toc-cache-empty' });
+      return;
+    }
+
+    const listEl = contentEl.createDiv('toc-cache-list');
+    for (const entry of entries) {
+      const expired = cache.isExpired(entry);
+      const status = entry.status === 'found' ? '✅ 목차' : '∅ 목차 없음';
+      const method = getTOCStrategyLabel(entry.method) || entry.method;
+      const cachedAt = window.moment(entry.cachedAt).format('YYYY-MM-DD HH:mm');
+      const expiresAt = window.moment(cache.expiresAt(entry)).format('YYYY-MM-DD');
+
+      new Setting(listEl)
+        .setName(`${entry.title} (${entry.key})`)
+        .setDesc(`${status} · ${method} · 저장 ${cachedAt} · ${expired ? '만료됨' : `만료 ${expiresAt}`}`)
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('삭제')
+          .onClick(async () => {
+            cache.remove(entry.key);
+            await this.plugin.saveSettings();
+            this.render();
+          }));
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { ItemView, Notice, Setting, WorkspaceLeaf } from 'obsidian';
+import KRBookPlugin from '../main';
+import { getTOCStrategyLabel } from '../api/toc-strategies';
+
+export const TOC_HEALTH_VIEW_TYPE = 'kr-book-toc-health';
+
+const RECENT_RESULT_COUNT = 20;
+
+/**
+ * 목차 추출 상태 뷰 - 방법별 성공률, 신뢰도 분포, 최근 결과, 추천 조치
+ */
+export class TOCHealthView extends ItemView {
+  private plugin: KRBookPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: KRBookPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return TOC_HEALTH_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return '목차 추출 상태';
+  }
+
+  getIcon(): string {
+    return 'activity';
+  }
+
+  async onOpen() {
+    this.render();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+  }
+
+  render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('kr-book-toc-health');
+
+    const monitor = this.plugin.tocMonitor;
+    const metrics = monitor.getMetrics();
+
+    contentEl.createEl('h3', { text: '📊 목차 추출 상태' });
+
+    if (metrics.totalAttempts === 0 && metrics.totalErrors === 0) {
+      contentEl.createEl('p', { text: '아직 기록된 목차 추출 시도가 없습니다. 목차를 가져오는 노트를 만들면 여기에 기록됩니다.', cls: 'toc-health-empty' });
+      return;
+    }
+
+    // 전체 통계
+    const summaryEl = contentEl.createDiv('toc-health-summary');
+    this.createStat(summaryEl, '시도', `${metrics.totalAttempts}회`);
+    this.createStat(summaryEl, '성공률', this.formatPercent(monitor.getOverallSuccessRate()));
+    this.createStat(summaryEl, '평균 응답', `${Math.round(monitor.getAverageResponseTime())}ms`);
+    this.createStat(summaryEl, '오류', `${metrics.totalErrors}회`);
+
+    // 방법별 성공률
+    contentEl.createEl('h4', { text: '방법별 성공률' });
+    const methodTable = contentEl.createEl('table', { cls: 'toc-health-table' });
+    const header = methodTable.createEl('tr');
+    ['방법', '시도', '오류', '성공률', '평균 신뢰도', '평균 응답'].forEach(text => header.createEl('th', { text }));
+
+    for (const stats of monitor.getMethodSuccessRates()) {
+      const row = methodTable.createEl('tr');
+      row.createEl('td', { text: this.methodLabel(stats.method) });
+      row.createEl('td', { text: String(stats.attempts) });
+      row.createEl('td', { text: String(stats.errors) });
+      this.createBarCell(row, stats.successRate);
+      row.createEl('td', { text: stats.avgConfidence > 0 ? this.formatPercent(stats.avgConfidence) : '-' });
+      row.createEl('td', { text: stats.avgResponseTime > 0 ? `${Math.round(stats.avgResponseTime)}ms` : '-' });
+    }
+
+    // 신뢰도 분포
+    contentEl.createEl('h4', { text: '신뢰도 분포' });
+    const { high, medium, low } = metrics.confidenceDistribution;
+    const successTotal = high + medium + low;
+    const distributionEl = contentEl.createDiv('toc-health-distribution');
+    ([['높음 (≥80%)', high], ['보통 (50-80%)', medium], ['낮음 (<50%)', low]] as [string, number][]).forEach(([label, count]) => {
+      const rowEl = distributionEl.createDiv('toc-health-distribution-row');
+      rowEl.createSpan({ text: label, cls: 'toc-health-distribution-label' });
+      this.createBar(rowEl, successTotal > 0 ? count / successTotal : 0);
+      rowEl.createSpan({ text: `${count}회`, cls: 'toc-health-distribution-count' });
+    });
+
+    // 최근 결과
+    contentEl.createEl('h4', { text: '최근 결과' });
+    const recentEl = contentEl.createEl('ul', { cls: 'toc-health-recent' });
+    metrics.recentResults
+      .slice(-RECENT_RESULT_COUNT)
+      .reverse()
+      .forEach(result => {
+        const time = window.moment(result.timestamp).format('MM-DD HH:mm');
+        const detail = result.success ? `신뢰도 ${this.formatPercent(result.confidence)}` : result.error ? '오류' : '실패';
+        recentEl.createEl('li', {
+          text: `${result.success ? '✅' : result.error ? '⚠️' : '❌'} ${result.book} · ${this.methodLabel(result.method)} · ${detail} · ${result.responseTime}ms · ${time}`
+        });
+      });
+
+    this.renderRecommendations(contentEl);
+  }
+
+  /**
+   * 추천사항과 바로 적용할 수 있는 조치
+   */
+  private renderRecommendations(containerEl: HTMLElement) {
+    const monitor = this.plugin.tocMonitor;
+    const settings = this.plugin.settings;
+
+    containerEl.createEl('h4', { text: '💡 추천사항' });
+    const listEl = containerEl.createEl('ul', { cls: 'toc-health-recommendations' });
+    monitor.getRecommendations().forEach(text => listEl.createEl('li', { text }));
+
+    const currentOrder = settings.tocStrategies.map(entry => entry.name);
+    const recommendedOrder = monitor.recommendStrategyOrder(currentOrder);
+    const orderChanged = recommendedOrder.some((name, index) => name !== currentOrder[index]);
+
+    if (orderChanged) {
+      new Setting(containerEl)
+        .setName('추천 순서로 전략 재정렬')
+        .setDesc(recommendedOrder.map((name, index) => `${index + 1}. ${this.methodLabel(name)}`).join('  '))
+        .addButton(button => button
+          .setButtonText('적용')
+          .setCta()
+          .onClick(async () => {
+            settings.tocStrategies = recommendedOrder.map(name => settings.tocStrategies.find(entry => entry.name === name)!);
+            await this.plugin.saveSettings();
+            new Notice('목차 추출 전략 순서를 변경했습니다.');
+            this.render();
+          }));
+    }
+
+    const failing = monitor.getFailingMethods()
+      .filter(name => settings.tocStrategies.some(entry => entry.name === name && entry.enabled));
+
+    if (failing.length > 0) {
+      new Setting(containerEl)
+        .setName('성공한 적 없는 전략 끄기')
+        .setDesc(failing.map(name => this.describeFailing(name)).join(', '))
+        .addButton(button => button
+          .setButtonText('끄기')
+          .onClick(async () => {
+            settings.tocStrategies.forEach(entry => {
+              if (failing.includes(entry.name)) entry.enabled = false;
+            });
+            await this.plugin.saveSettings();
+            new Notice(`${failing.length}개 전략을 껐습니다.`);
+            this.render();
+          }));
+    }
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('리포트 복사')
+        .onClick(async () => {
+          await navigator.clipboard.writeText(monitor.generateReport());
+          new Notice('목차 추출 리포트를 클립보드에 복사했습니다.');
+        }))
+      .addButton(button => button
+        .setButtonText('기록 초기화')
+        .setWarning()
+        .onClick(async () => {
+          monitor.reset();
+          await this.plugin.saveSettings();
+          this.render();
+        }));
+  }
+
+  /**
+   * 끌 전략 설명 - 오류로 끝난 시도는 실행 횟수에서 빠졌음을 함께 표시
+   */
+  private describeFailing(method: string): string {
+    const stats = this.plugin.tocMonitor.getMetrics().methodBreakdown[method];
+    const errors = stats.errors ? `, 오류 ${stats.errors}회 제외` : '';
+    return `${this.methodLabel(method)} (실행 ${stats.attempts}회${errors})`;
+  }
+
+  private methodLabel(method: string): string {
+    return getTOCStrategyLabel(method) || method;
+  }
+
+  private formatPercent(ratio: number): string {
+    return `${(ratio * 100).toFixed(1)}%`;
+  }
+
+  private createStat(containerEl: HTMLElement, label: string, value: string) {
+    const statEl = containerEl.createDiv('toc-health-stat');
+    statEl.createDiv({ text: value, cls: 'toc-health-stat-value' });
+    statEl.createDiv({ text: label, cls: 'toc-health-stat-label' });
+  }
+
+  private createBarCell(rowEl: HTMLElement, ratio: number) {
+    const cell = rowEl.createEl('td');
+    this.createBar(cell, ratio);
+    cell.createSpan({ text: ` ${this.formatPercent(ratio)}` });
+  }
+
+  private createBar(containerEl: HTMLElement, ratio: number) {
+    const barEl = containerEl.createDiv('toc-health-bar');
+    barEl.createDiv('toc-health-bar-fill').style.width = `${Math.round(ratio * 100)}%`;
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * 참고문헌 내보내기 - Book을 BibTeX, RIS, CSL-JSON으로 변환
+ */
+import { Book } from '../api/types';
+import { Contributors, PersonName, parseContributors } from './person-names';
+
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { label: string; extension: string }> = {
+  bibtex: { label: 'BibTeX', extension: 'bib' },
+  ris: { label: 'RIS', extension: 'ris' },
+  'csl-json': { label: 'CSL-JSON', extension: 'json' }
+};
+
+/**
+ * 도서 목록을 지정한 형식의 참고문헌 문자열로 변환
+ */
+export function exportBibliography(books: Book[], format: BibliographyFormat): string {
+  const keys = citationKeys(books);
+
+  switch (format) {
+    case 'ris':
+      return books.map(toRIS).join('\n\n') + '\n';
+    case 'csl-json':
+      return JSON.stringify(books.map((book, index) => toCSL(book, keys[index])), null, 2);
+    case 'bibtex':
+    default:
+      return books.map((book, index) => toBibTeX(book, keys[index])).join('\n\n') + '\n';
+  }
+}
+
+/**
+ * 출판년도 (publishDate 앞 네 자리)
+ */
+export function publicationYear(book: Book): string {
+  const match = (book.publishDate || '').match(/\d{4}/);
+  return match ? match[0] : '';
+}
+
+/**
+ * BibTeX 항목 - 편자만 있으면 editor, 총서는 series/number로 기록
+ */
+function toBibTeX(book: Book, key: string): string {
+  const contributors = parseContributors(book.author, book.translators);
+  const fields: [string, string | undefined][] = [
+    ['author', bibtexNames(contributors.authors)],
+    ['editor', bibtexNames(contributors.editors)],
+    ['translator', bibtexNames(contributors.translators)],
+    ['title', book.title && `{${escapeBibTeX(book.title)}}`],
+    ['edition', bibtexText(book.edition)],
+    ['series', bibtexText(book.series)],
+    ['number', book.series ? bibtexText(book.volume) : undefined],
+    ['volume', book.series ? undefined : bibtexText(book.volume)],
+    ['publisher', bibtexText(book.publisher)],
+    ['year', publicationYear(book)],
+    ['isbn', book.isbn],
+    ['pagetotal', book.pages?.match(/\d+/)?.[0]],
+    ['language', isKoreanBook(book) ? 'korean' : undefined]
+  ];
+
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(',\n');
+
+  return `@book{${key},\n${body}\n}`;
+}
+
+/**
+ * RIS 항목 - 편자만 있으면 EDBOOK 유형
+ */
+function toRIS(book: Book): string {
+  const contributors = parseContributors(book.author, book.translators);
+  const type = contributors.authors.length === 0 && contributors.editors.length > 0 ? 'EDBOOK' : 'BOOK';
+
+  const lines: [string, string | undefined][] = [
+    ['TY', type],
+    ...contributors.authors.map(person => ['AU', risName(person)] as [string, string]),
+    ...contributors.editors.map(person => ['A2', risName(person)] as [string, string]),
+    ...contributors.translators.map(person => ['A4', risName(person)] as [string, string]),
+    ['TI', book.title],
+    ['T3', book.series],
+    ['VL', book.volume],
+    ['ET', book.edition],
+    ['PB', book.publisher],
+    ['PY', publicationYear(book)],
+    ['DA', book.publishDate],
+    ['SN', book.isbn],
+    ['SP', book.pages?.match(/\d+/)?.[0]],
+    ['LA', isKoreanBook(book) ? 'kor' : undefined],
+    ['ER', '']
+  ];
+
+  return lines
+    .filter(([tag, value]) => tag === 'ER' || value)
+    .map(([tag, value]) => `${tag}  - ${value}`.trimEnd())
+    .join('\n');
+}
+
+/**
+ * CSL-JSON 항목
+ */
+function toCSL(book: Book, id: string): Record<string, any> {
+  const contributors: Contributors = parseContributors(book.author, book.translators);
+  const year = publicationYear(book);
+  const dateParts = (book.publishDate || '').match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+
+  const item: Record<string, any> = {
+    id,
+    type: 'book',
+    title: book.title,
+    author: contributors.authors.map(cslName),
+    editor: contributors.editors.map(cslName),
+    translator: contributors.translators.map(cslName),
+    publisher: book.publisher || undefined,
+    edition: book.edition || undefined,
+    'collection-title': book.series || undefined,
+    'collection-number': book.series ? book.volume || undefined : undefined,
+    volume: book.series ? undefined : book.volume || undefined,
+    ISBN: book.isbn || undefined,
+    'number-of-pages': book.pages?.match(/\d+/)?.[0],
+    language: isKoreanBook(book) ? 'ko' : undefined,
+    issued: year && dateParts
+      ? { 'date-parts': [dateParts.slice(1).filter(Boolean).map(part => parseInt(part, 10))] }
+      : undefined
+  };
+
+  // 빈 값과 빈 인명 목록은 제외
+  return Object.fromEntries(
+    Object.entries(item).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+  );
+}
+
+/**
+ * BibTeX 인명 - 한글 이름은 중괄호로 묶어 성/이름 재배열과 이니셜 축약을 막음
+ */
+function bibtexNames(people: PersonName[]): string | undefined {
+  if (people.length === 0) return undefined;
+  return people
+    .map(person => {
+      if (person.literal) return `{${escapeBibTeX(person.literal)}}`;
+      if (person.korean) return `{${escapeBibTeX(`${person.family}${person.given}`)}}`;
+      return `${escapeBibTeX(person.family!)}, ${escapeBibTeX(person.given!)}`;
+    })
+    .join(' and ');
+}
+
+function risName(person: PersonName): string {
+  return person.literal || `${person.family}, ${person.given}`;
+}
+
+function cslName(person: PersonName): Record<string, string> {
+  return person.literal ? { literal: person.literal } : { family: person.family!, given: person.given! };
+}
+
+/**
+ * 인용 키 - 로마자 성+연도, 한글 이름이면 ISBN 뒤 네 자리 사용 (중복 시 a, b, ... 추가)
+ */
+function citationKeys(books: Book[]): string[] {
+  const used = new Map<string, number>();
+
+  return books.map(book => {
+    const [first] = parseContributors(book.author).authors;
+    const family = (first?.family || first?.literal || '').toLowerCase().replace(/[^a-z]/g, '');
+    const base = `${family || 'book'}${publicationYear(book)}${!family && book.isbn ? `_${book.isbn.slice(-4)}` : ''}`;
+
+    const count = used.get(base) || 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}${String.fromCharCode(96 + count)}`;
+  });
+}
+
+function isKoreanBook(book: Book): boolean {
+  return /[가-힣]/.test(book.title);
+}
+
+/**
+ * BibTeX 특수문자 이스케이프 - 감싸는 중괄호를 붙이기 전의 원래 값에만 적용
+ */
+function escapeBibTeX(value: string): string {
+  return value.replace(/[\\{}&%$#_]/g, char => (char === '\\' ? '\\textbackslash{}' : `\\${char}`));
+}
+
+function bibtexText(value?: string): string | undefined {
+  return value && escapeBibTeX(value);
+}
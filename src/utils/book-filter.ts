@@ -0,0 +1,31 @@
+import { Book, SearchParams } from '../api/types';
+import { extractYear } from './book-sort';
+import { getKDCMainClass } from './kdc';
+
+/**
+ * 검색 API가 지원하지 않아 플러그인에서 적용하는 필터가 있는지 확인
+ */
+export function hasClientFilters(params: SearchParams): boolean {
+  return !!(params.yearFrom || params.yearTo || params.kdcClass || (params.media && params.media !== 'all'));
+}
+
+/**
+ * 도서가 발행년도 범위 / KDC 주류 / 매체 필터를 만족하는지 확인
+ */
+export function matchesSearchFilters(book: Book, params: SearchParams): boolean {
+  if (params.yearFrom || params.yearTo) {
+    const year = extractYear(book.publishDate);
+    if (!year) return false;
+    if (params.yearFrom && year < params.yearFrom) return false;
+    if (params.yearTo && year > params.yearTo) return false;
+  }
+
+  if (params.kdcClass && getKDCMainClass(book.kdc) !== params.kdcClass) {
+    return false;
+  }
+
+  if (params.media === 'ebook' && !book.ebook) return false;
+  if (params.media === 'print' && book.ebook) return false;
+
+  return true;
+}
@@ -0,0 +1,67 @@
+import { App, TFile } from 'obsidian';
+import { Book } from '../api/types';
+import { isSameISBN, normalizeISBN } from './isbn';
+
+/**
+ * 도서 노트의 프론트매터에서 정규화된 ISBN 읽기
+ */
+export function getNoteISBN(app: App, file: TFile): string {
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  return frontmatter?.isbn ? normalizeISBN(String(frontmatter.isbn)) : '';
+}
+
+/**
+ * 도서 노트의 식별자(ISBN, CONTROL_NO) - 둘 다 없으면 null
+ */
+export function getNoteBookIds(app: App, file: TFile): { isbn: string; controlNo?: string } | null {
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  const isbn = getNoteISBN(app, file);
+  const controlNo = frontmatter?.controlNo ? String(frontmatter.controlNo) : undefined;
+  return isbn || controlNo ? { isbn, controlNo } : null;
+}
+
+/**
+ * 도서 노트 프론트매터로 Book 구성 (제목과 ISBN/저자가 없으면 도서 노트가 아닌 것으로 보고 null)
+ */
+export function bookFromNote(app: App, file: TFile): Book | null {
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  if (!frontmatter?.title || (!frontmatter.isbn && !frontmatter.author)) return null;
+
+  const text = (key: string) => (frontmatter[key] !== undefined && frontmatter[key] !== null ? String(frontmatter[key]) : '');
+
+  return {
+    title: text('title'),
+    author: text('author'),
+    publisher: text('publisher'),
+    publishDate: text('publishDate'),
+    isbn: getNoteISBN(app, file),
+    pages: text('pages') || undefined,
+    subject: text('category') || undefined,
+    kdc: text('kdc') || undefined,
+    series: text('series') || undefined,
+    volume: text('volume') || undefined,
+    edition: text('edition') || undefined,
+    controlNo: text('controlNo') || undefined,
+    coverImage: text('coverImage') || undefined,
+    ebook: Array.isArray(frontmatter.tags) && frontmatter.tags.includes('ebook')
+  };
+}
+
+/**
+ * 노트 폴더(비어 있으면 볼트 전체)의 마크다운 노트 목록
+ */
+export function getNotesInFolder(app: App, folderPath: string): TFile[] {
+  const prefix = folderPath ? `${folderPath}/` : '';
+  return app.vault.getMarkdownFiles().filter(file => !prefix || file.path.startsWith(prefix));
+}
+
+/**
+ * 노트 폴더에서 프론트매터 ISBN이 같은 도서 노트 찾기
+ */
+export function findBookNotesByISBN(app: App, folderPath: string, isbn: string): TFile[] {
+  const target = normalizeISBN(isbn);
+  if (!target) return [];
+
+  // ISBN-10으로 저장된 노트도 같은 도서의 ISBN-13과 일치하도록 비교
+  return getNotesInFolder(app, folderPath).filter(file => isSameISBN(getNoteISBN(app, file), target));
+}
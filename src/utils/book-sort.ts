@@ -0,0 +1,58 @@
+import { Book, SearchParams } from '../api/types';
+
+export type BookSortField = NonNullable<SearchParams['sort']>;
+export type SortOrder = NonNullable<SearchParams['order']>;
+
+/**
+ * 정렬 기준 표시 이름
+ */
+export const SORT_FIELD_LABELS: Record<BookSortField, string> = {
+  relevance: '관련도순',
+  title: '제목순',
+  author: '저자순',
+  publisher: '출판사순',
+  pub_year: '출간년도순'
+};
+
+/**
+ * 출판일 문자열에서 연도 추출 (없으면 0)
+ */
+export function extractYear(publishDate: string | undefined): number {
+  const match = (publishDate || '').match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : 0;
+}
+
+/**
+ * 두 도서를 지정한 기준으로 비교 (오름차순 기준)
+ */
+export function compareBooks(a: Book, b: Book, field: BookSortField): number {
+  switch (field) {
+    case 'title':
+      return (a.title || '').localeCompare(b.title || '', 'ko');
+    case 'author':
+      return (a.author || '').localeCompare(b.author || '', 'ko');
+    case 'publisher':
+      return (a.publisher || '').localeCompare(b.publisher || '', 'ko');
+    case 'pub_year': {
+      const yearDiff = extractYear(a.publishDate) - extractYear(b.publishDate);
+      return yearDiff !== 0 ? yearDiff : (a.publishDate || '').localeCompare(b.publishDate || '');
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * 도서 목록 정렬 (원본 배열은 변경하지 않음, 같은 값은 기존 순서 유지)
+ */
+export function sortBooks(books: Book[], field: BookSortField, order: SortOrder = 'asc'): Book[] {
+  if (field === 'relevance') {
+    return [...books];
+  }
+
+  const direction = order === 'desc' ? -1 : 1;
+  return books
+    .map((book, index) => ({ book, index }))
+    .sort((a, b) => compareBooks(a.book, b.book, field) * direction || a.index - b.index)
+    .map(item => item.book);
+}
@@ -0,0 +1,106 @@
+/**
+ * 인용 형식 - APA, Chicago(각주), MLA, 한국 학술지(『』) 스타일로 도서 인용문 생성
+ */
+import { Book } from '../api/types';
+import { PersonName, formatPersonName, parseContributors } from './person-names';
+import { publicationYear } from './bibliography';
+
+export type CitationStyle = 'apa' | 'chicago' | 'mla' | 'korean';
+
+export const CITATION_STYLE_LABELS: Record<CitationStyle, string> = {
+  apa: 'APA (7판)',
+  chicago: 'Chicago (각주)',
+  mla: 'MLA (9판)',
+  korean: '한국 학술지 (『』)'
+};
+
+/**
+ * 인용문 생성 (쪽수를 주면 스타일에 맞게 끝에 붙임)
+ */
+export function formatCitation(book: Book, style: CitationStyle, page?: string): string {
+  const contributors = parseContributors(book.author, book.translators);
+  const year = publicationYear(book);
+  const pageText = (page || '').trim();
+
+  switch (style) {
+    case 'korean': {
+      const parts = [
+        joinNames(contributors.authors, formatPersonName, '·'),
+        contributors.editors.length > 0 ? `${joinNames(contributors.editors, formatPersonName, '·')} 엮음` : '',
+        contributors.translators.length > 0 ? `${joinNames(contributors.translators, formatPersonName, '·')} 옮김` : '',
+        `『${book.title}』`,
+        book.edition || '',
+        book.publisher,
+        year,
+        pageText ? `${pageText}쪽` : ''
+      ];
+      return `${parts.filter(Boolean).join(', ')}.`;
+    }
+
+    case 'chicago': {
+      const names = joinNames(contributors.authors.length > 0 ? contributors.authors : contributors.editors, formatPersonName, ' and ');
+      const editorNote = contributors.authors.length === 0 && contributors.editors.length > 0 ? ', ed.' : '';
+      const translatorNote = contributors.translators.length > 0
+        ? `, trans. ${joinNames(contributors.translators, formatPersonName, ' and ')}`
+        : '';
+      const publication = [book.publisher, year].filter(Boolean).join(', ');
+      const citation = `${names ? `${names}${editorNote}, ` : ''}${italic(book.title)}${translatorNote}${book.edition ? `, ${book.edition}` : ''}${publication ? ` (${publication})` : ''}`;
+      return `${citation}${pageText ? `, ${pageText}` : ''}.`;
+    }
+
+    case 'mla': {
+      const names = mlaNames(contributors.authors.length > 0 ? contributors.authors : contributors.editors);
+      const editorNote = contributors.authors.length === 0 && contributors.editors.length > 0 ? ', editor' : '';
+      const translatorNote = contributors.translators.length > 0
+        ? ` Translated by ${joinNames(contributors.translators, formatPersonName, ' and ')}.`
+        : '';
+      const publication = [book.edition, book.publisher, year].filter(Boolean).join(', ');
+      const citation = `${names ? `${names}${editorNote}. ` : ''}${italic(book.title)}.${translatorNote}${publication ? ` ${publication}` : ''}`;
+      return `${citation}${pageText ? `, p. ${pageText}` : ''}.`;
+    }
+
+    case 'apa':
+    default: {
+      const names = joinNames(contributors.authors.length > 0 ? contributors.authors : contributors.editors, apaName, ', ', ', & ');
+      const editorNote = contributors.authors.length === 0 && contributors.editors.length > 0 ? ' (Ed.)' : '';
+      const details = [
+        book.edition,
+        contributors.translators.length > 0 ? `${joinNames(contributors.translators, formatPersonName, ', ')}, Trans.` : ''
+      ].filter(Boolean).join('; ');
+      const citation = `${names ? `${names}${editorNote}${names.endsWith('.') ? '' : '.'} ` : ''}(${year || 'n.d.'}). ${italic(book.title)}${details ? ` (${details})` : ''}.${book.publisher ? ` ${book.publisher}.` : ''}`;
+      return pageText ? `${citation.replace(/\.$/, '')}, p. ${pageText}.` : citation;
+    }
+  }
+}
+
+/**
+ * APA 인명 - 로마자 이름은 "성, 이니셜", 한글 이름은 전체 이름
+ */
+function apaName(person: PersonName): string {
+  if (person.literal || person.korean) return formatPersonName(person);
+  const initials = person.given!.split(/[\s-]+/).filter(Boolean).map(part => `${part[0]}.`).join(' ');
+  return `${person.family}, ${initials}`;
+}
+
+/**
+ * MLA 인명 - 첫 저자만 "성, 이름", 둘이면 "and 이름 성", 셋 이상이면 et al.
+ */
+function mlaNames(people: PersonName[]): string {
+  if (people.length === 0) return '';
+
+  const [first, second] = people;
+  const firstName = first.literal || first.korean ? formatPersonName(first) : `${first.family}, ${first.given}`;
+  if (people.length === 1) return firstName;
+  if (people.length === 2) return `${firstName}, and ${formatPersonName(second)}`;
+  return `${firstName}, et al`;
+}
+
+function joinNames(people: PersonName[], format: (person: PersonName) => string, separator: string, lastSeparator = separator): string {
+  const names = people.map(format);
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(separator)}${lastSeparator}${names[names.length - 1]}`;
+}
+
+function italic(text: string): string {
+  return `*${text}*`;
+}
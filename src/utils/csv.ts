@@ -0,0 +1,75 @@
+/**
+ * CSV 파싱 유틸리티 - 따옴표 안의 쉼표/줄바꿈, "" 이스케이프, BOM, 탭 구분 파일 지원
+ */
+
+/**
+ * CSV 텍스트를 행/열 배열로 변환 (빈 행은 제외)
+ */
+export function parseCSV(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  return rows
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell.length > 0));
+}
+
+/**
+ * 헤더 행을 키로 사용해 객체 배열로 변환
+ */
+export function parseCSVRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+  const [headers = [], ...rows] = parseCSV(text);
+  const records = rows.map(cells =>
+    Object.fromEntries(headers.map((header, index) => [header, cells[index] || '']))
+  );
+  return { headers, records };
+}
+
+/**
+ * 첫 줄에서 더 많이 쓰인 구분자 선택 (쉼표/탭)
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const tabs = (firstLine.match(/\t/g) || []).length;
+  const commas = (firstLine.match(/,/g) || []).length;
+  return tabs > commas ? '\t' : ',';
+}
@@ -40,10 +40,10 @@ export function registerDebugCommands(plugin: Plugin, apiKey: string) {
       console.log(`ISBN ${testISBN} 검색 중...`);
       
       try {
-        const books = await api.searchBooks({ isbn: testISBN });
-        if (books.length > 0) {
-          console.log('ISBN 검색 성공:', books[0]);
-          new Notice(`도서 발견: ${books[0].title}`);
+        const book = await api.lookupByISBN(testISBN);
+        if (book) {
+          console.log('ISBN 검색 성공:', book);
+          new Notice(`도서 발견: ${book.title}`);
         } else {
           console.log('도서를 찾을 수 없음');
           new Notice('도서를 찾을 수 없습니다.');
@@ -74,7 +74,7 @@ export function registerDebugCommands(plugin: Plugin, apiKey: string) {
         });
         
         console.log('상세 검색 결과:', result);
-        new Notice(`${result.length}개의 결과를 찾았습니다.`);
+        new Notice(`${result.total}개의 결과를 찾았습니다.`);
       } catch (error) {
         console.error('상세 검색 실패:', error);
         new Notice('상세 검색 실패. 콘솔을 확인하세요.');
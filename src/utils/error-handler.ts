@@ -1,3 +1,5 @@
+import { getTOCStrategyLabel } from '../api/toc-strategies';
+
 /**
  * 사용자 친화적 오류 처리 유틸리티
  */
@@ -221,15 +223,12 @@ export class ErrorHandler {
    */
   private static translateMethodName(method: string): string {
     const translations: Record<string, string> = {
-      'session-book-tb-cnt-url': '세션 기반 목차 URL 접근',
-      'session-detail-page': '세션 기반 상세 페이지 분석',
-      'session-txt-download': '세션 기반 TXT 다운로드',
-      'fallback': '기존 방식 폴백',
+      'all-failed': '모든 방법 실패',
       'legacy-isbn': '기존 ISBN 검색',
       'legacy-general': '기존 일반 검색'
     };
     
-    return translations[method] || method;
+    return getTOCStrategyLabel(method) || translations[method] || method;
   }
 
   /**
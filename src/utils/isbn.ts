@@ -0,0 +1,112 @@
+/**
+ * ISBN 관련 유틸리티
+ */
+
+/**
+ * ISBN에서 하이픈, 공백 등을 제거하고 대문자로 정리
+ */
+export function normalizeISBN(raw: string): string {
+  if (!raw) return '';
+  return raw.replace(/[^0-9Xx]/g, '').toUpperCase();
+}
+
+/**
+ * 입력값이 ISBN-10/13 형식인지 확인 (하이픈 포함/미포함 모두 허용)
+ */
+export function looksLikeISBN(text: string): boolean {
+  if (!text) return false;
+  const trimmed = text.trim();
+  if (!/^[0-9Xx\-\s]+$/.test(trimmed)) return false;
+
+  const isbn = normalizeISBN(trimmed);
+  return /^\d{13}$/.test(isbn) || /^\d{9}[\dX]$/.test(isbn);
+}
+
+/**
+ * ISBN-10 체크섬 검증 (마지막 자리 X = 10)
+ */
+export function isValidISBN10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+
+  const sum = isbn.split('').reduce((acc, char, index) => {
+    const digit = char === 'X' ? 10 : parseInt(char, 10);
+    return acc + digit * (10 - index);
+  }, 0);
+  return sum % 11 === 0;
+}
+
+/**
+ * ISBN-13 체크섬 검증
+ */
+export function isValidISBN13(isbn: string): boolean {
+  if (!/^\d{13}$/.test(isbn)) return false;
+
+  const sum = isbn.split('').reduce((acc, char, index) => acc + parseInt(char, 10) * (index % 2 === 0 ? 1 : 3), 0);
+  return sum % 10 === 0;
+}
+
+/**
+ * 체크섬까지 맞는 ISBN-10/13인지 확인
+ */
+export function isValidISBN(raw: string): boolean {
+  const isbn = normalizeISBN(raw);
+  return isbn.length === 13 ? isValidISBN13(isbn) : isValidISBN10(isbn);
+}
+
+/**
+ * ISBN-10을 978 접두어의 ISBN-13으로 변환 (이미 13자리면 그대로)
+ */
+export function toISBN13(raw: string): string {
+  const isbn = normalizeISBN(raw);
+  if (isbn.length !== 10) return isbn;
+
+  const body = `978${isbn.slice(0, 9)}`;
+  const sum = body.split('').reduce((acc, char, index) => acc + parseInt(char, 10) * (index % 2 === 0 ? 1 : 3), 0);
+  return `${body}${(10 - (sum % 10)) % 10}`;
+}
+
+/**
+ * 978 접두어의 ISBN-13을 ISBN-10으로 변환 (변환할 수 없으면 빈 문자열, 이미 10자리면 그대로)
+ */
+export function toISBN10(raw: string): string {
+  const isbn = normalizeISBN(raw);
+  if (isbn.length === 10) return isbn;
+  if (isbn.length !== 13 || !isbn.startsWith('978')) return '';
+
+  const body = isbn.slice(3, 12);
+  const sum = body.split('').reduce((acc, char, index) => acc + parseInt(char, 10) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return `${body}${check === 10 ? 'X' : check}`;
+}
+
+/**
+ * 두 ISBN이 같은 도서인지 - ISBN-10과 ISBN-13 표기 차이는 같은 것으로 봄
+ */
+export function isSameISBN(a: string, b: string): boolean {
+  const isbnA = toISBN13(a);
+  return !!isbnA && isbnA === toISBN13(b);
+}
+
+/**
+ * 자유 형식 텍스트에서 ISBN 추출 - 체크섬이 맞는 값은 ISBN-13으로 통일해 중복 제거,
+ * 10/13자리지만 체크섬이 틀린 값은 invalid로 분리
+ */
+export function extractISBNs(text: string): { valid: string[]; invalid: string[] } {
+  const valid = new Set<string>();
+  const invalid = new Set<string>();
+
+  // 숫자 사이 하이픈만 허용 (공백까지 허용하면 가격·수량과 붙어버림)
+  const candidates = text.match(/\b(?:\d-?){9,12}[\dXx]\b/g) || [];
+  for (const candidate of candidates) {
+    const isbn = normalizeISBN(candidate);
+    if (isbn.length !== 10 && isbn.length !== 13) continue;
+
+    if (isValidISBN(isbn)) {
+      valid.add(toISBN13(isbn));
+    } else {
+      invalid.add(candidate);
+    }
+  }
+
+  return { valid: [...valid], invalid: [...invalid] };
+}
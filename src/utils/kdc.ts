@@ -0,0 +1,35 @@
+/**
+ * 한국십진분류(KDC) 유틸리티
+ */
+
+/**
+ * KDC 주류 (첫 자리) 이름
+ */
+export const KDC_MAIN_CLASSES: Record<string, string> = {
+  '0': '총류',
+  '1': '철학',
+  '2': '종교',
+  '3': '사회과학',
+  '4': '자연과학',
+  '5': '기술과학',
+  '6': '예술',
+  '7': '언어',
+  '8': '문학',
+  '9': '역사'
+};
+
+/**
+ * KDC 기호에서 주류 번호(0-9) 추출
+ */
+export function getKDCMainClass(kdc: string | undefined): string | null {
+  const match = (kdc || '').trim().match(/^(\d)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * KDC 기호를 "8 문학" 형태의 주류 이름으로 변환
+ */
+export function getKDCMainClassLabel(kdc: string | undefined): string {
+  const mainClass = getKDCMainClass(kdc);
+  return mainClass ? `${mainClass}00 ${KDC_MAIN_CLASSES[mainClass]}` : '미분류';
+}
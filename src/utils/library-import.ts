@@ -0,0 +1,154 @@
+/**
+ * 독서 기록 가져오기 - Goodreads/알라딘 내보내기 및 일반 CSV의 열을 독서 기록으로 변환
+ */
+import { ReadingStatusValue } from '../api/types';
+import { normalizeISBN, isValidISBN, toISBN13 } from './isbn';
+
+export type LibraryImportFormat = 'goodreads' | 'aladin' | 'generic';
+
+export type ImportField = 'isbn' | 'title' | 'author' | 'status' | 'readDate' | 'rating' | 'shelves' | 'review';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportedReadingRecord {
+  row: number;
+  isbn: string;
+  title: string;
+  author: string;
+  status?: ReadingStatusValue;
+  readDate?: string;
+  rating?: number;
+  shelves: string[];
+  review?: string;
+}
+
+export const IMPORT_FORMAT_LABELS: Record<LibraryImportFormat, string> = {
+  goodreads: 'Goodreads CSV',
+  aladin: '알라딘 내 서재',
+  generic: '일반 CSV (열 직접 지정)'
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  isbn: 'ISBN',
+  title: '제목',
+  author: '저자',
+  status: '독서 상태',
+  readDate: '읽은 날짜',
+  rating: '평점',
+  shelves: '서재/분류',
+  review: '리뷰'
+};
+
+// 형식별 열 이름 후보 (앞쪽이 우선)
+const COLUMN_ALIASES: Record<Exclude<LibraryImportFormat, 'generic'>, Record<ImportField, string[]>> = {
+  goodreads: {
+    isbn: ['ISBN13', 'ISBN'],
+    title: ['Title'],
+    author: ['Author'],
+    status: ['Exclusive Shelf'],
+    readDate: ['Date Read'],
+    rating: ['My Rating'],
+    shelves: ['Bookshelves'],
+    review: ['My Review']
+  },
+  aladin: {
+    isbn: ['ISBN13', 'ISBN', '상품코드'],
+    title: ['상품명', '도서명', '제목'],
+    author: ['저자', '저자/아티스트', '지은이'],
+    status: ['상태', '독서 상태', '읽기 상태'],
+    readDate: ['읽은날짜', '읽은 날짜', '완독일', '다 읽은 날'],
+    rating: ['별점', '평점', '내 별점'],
+    shelves: ['서재', '분류', '카테고리'],
+    review: ['마이리뷰', '리뷰', '100자평', '메모']
+  }
+};
+
+// 서재/상태 값을 독서 상태로 (Goodreads의 Exclusive Shelf 포함, 소문자로 비교)
+const STATUS_ALIASES: Record<string, ReadingStatusValue> = {
+  'read': '완독',
+  'currently-reading': '읽는 중',
+  'to-read': '읽기 전',
+  '완독': '완독',
+  '읽은 책': '완독',
+  '다 읽음': '완독',
+  '읽는 중': '읽는 중',
+  '읽고 있는 책': '읽는 중',
+  '읽기 전': '읽기 전',
+  '읽고 싶은 책': '읽기 전'
+};
+
+/**
+ * 헤더로 내보내기 형식 추정
+ */
+export function detectImportFormat(headers: string[]): LibraryImportFormat {
+  if (headers.includes('Book Id') && headers.includes('Exclusive Shelf')) return 'goodreads';
+  if (headers.some(header => ['상품명', '마이리뷰', '읽은날짜'].includes(header))) return 'aladin';
+  return 'generic';
+}
+
+/**
+ * 형식에 맞는 기본 열 매핑 (일반 CSV는 두 형식의 별칭을 모두 시도)
+ */
+export function guessColumnMapping(headers: string[], format: LibraryImportFormat): ColumnMapping {
+  const aliasSets = format === 'generic' ? Object.values(COLUMN_ALIASES) : [COLUMN_ALIASES[format]];
+  const lowerHeaders = headers.map(header => header.toLowerCase());
+
+  const mapping: ColumnMapping = {};
+  (Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).forEach(field => {
+    for (const aliases of aliasSets) {
+      const alias = aliases[field].find(name => lowerHeaders.includes(name.toLowerCase()));
+      if (alias) {
+        mapping[field] = headers[lowerHeaders.indexOf(alias.toLowerCase())];
+        return;
+      }
+    }
+  });
+  return mapping;
+}
+
+/**
+ * CSV 레코드를 독서 기록으로 변환 (제목과 ISBN이 모두 없는 행은 제외)
+ */
+export function toReadingRecords(records: Record<string, string>[], mapping: ColumnMapping): ImportedReadingRecord[] {
+  const value = (record: Record<string, string>, field: ImportField) =>
+    mapping[field] ? (record[mapping[field]!] || '').trim() : '';
+
+  return records
+    .map((record, index) => ({
+      row: index + 2, // 헤더 다음 줄부터
+      isbn: parseISBNCell(value(record, 'isbn')),
+      title: value(record, 'title'),
+      author: value(record, 'author').replace(/\s*\(지은이\).*$/, ''),
+      status: STATUS_ALIASES[value(record, 'status').toLowerCase()],
+      readDate: parseReadDate(value(record, 'readDate')),
+      rating: parseRating(value(record, 'rating')),
+      shelves: value(record, 'shelves').split(/[,;/]/).map(shelf => shelf.trim()).filter(Boolean),
+      review: value(record, 'review').replace(/<br\s*\/?>/gi, '\n') || undefined
+    }))
+    .filter(record => record.isbn || record.title);
+}
+
+/**
+ * Goodreads의 ="9780..." 형식을 포함한 ISBN 셀 정리 (체크섬이 틀리면 빈 값)
+ */
+function parseISBNCell(cell: string): string {
+  const isbn = normalizeISBN(cell.replace(/^="?|"$/g, ''));
+  return isbn && isValidISBN(isbn) ? toISBN13(isbn) : '';
+}
+
+/**
+ * 날짜 셀을 YYYY-MM-DD로 정리 (해석할 수 없으면 undefined)
+ */
+function parseReadDate(cell: string): string | undefined {
+  if (!cell) return undefined;
+  const date = window.moment(cell, ['YYYY/MM/DD', 'YYYY-MM-DD', 'YYYY.MM.DD', 'YYYY.M.D', 'MM/DD/YYYY', 'YYYYMMDD'], true);
+  return date.isValid() ? date.format('YYYY-MM-DD') : undefined;
+}
+
+/**
+ * 평점 셀 정리 - 0이나 숫자가 아닌 값은 평점 없음
+ */
+function parseRating(cell: string): number | undefined {
+  const rating = parseFloat(cell.replace(/[^\d.]/g, ''));
+  return rating > 0 ? rating : undefined;
+}
@@ -0,0 +1,172 @@
+/**
+ * 서재 유틸리티 - 노트 폴더의 도서 노트를 모아 필터/정렬 (서재 보기, 통계, 독서 목표가 공유)
+ */
+import { App, TFile } from 'obsidian';
+import { Book, ReadingStatus, ReadingStatusValue } from '../api/types';
+import { bookFromNote, getNotesInFolder } from './book-notes';
+import { readReadingStatus, readTotalPages } from './reading-status';
+import { getKDCMainClass } from './kdc';
+import { extractCoverImage } from './note-diff';
+import { BookNoteTemplate } from './template';
+
+export interface LibraryEntry {
+  file: TFile;
+  book: Book;
+  reading: ReadingStatus;
+  pages?: number;
+  tags: string[];
+  kdcClass: string | null;
+  year: string;
+  created?: string;
+  cover: string | null; // 표시용 이미지 주소 (볼트 파일은 리소스 경로로 변환)
+}
+
+export type LibraryLayout = 'table' | 'grid' | 'shelf';
+export type LibrarySortKey = 'title' | 'author' | 'publisher' | 'year' | 'rating' | 'endDate' | 'created';
+export type LibrarySortOrder = 'asc' | 'desc';
+
+export interface LibraryFilter {
+  query?: string;
+  status?: ReadingStatusValue;
+  author?: string;
+  publisher?: string;
+  kdcClass?: string;
+  year?: string;
+  tag?: string;
+}
+
+export const LIBRARY_LAYOUT_LABELS: Record<LibraryLayout, string> = {
+  table: '표',
+  grid: '격자',
+  shelf: '책장'
+};
+
+export const LIBRARY_SORT_LABELS: Record<LibrarySortKey, string> = {
+  title: '제목',
+  author: '저자',
+  publisher: '출판사',
+  year: '출판년도',
+  rating: '평점',
+  endDate: '완독일',
+  created: '추가일'
+};
+
+const COVER_EXTENSIONS = /\.(jpe?g|png|gif|webp|svg)$/i;
+
+/**
+ * 노트 폴더의 도서 노트 전체 수집 (covers가 false면 본문을 읽지 않고 표지를 비워 둠 - 통계/목표용)
+ * 폴더 설정은 "Books/", "/Books"처럼 적어도 노트를 만들 때와 같은 경로로 정규화
+ */
+export async function collectLibraryEntries(app: App, folderPath: string, { covers = true } = {}): Promise<LibraryEntry[]> {
+  const entries: LibraryEntry[] = [];
+
+  for (const file of getNotesInFolder(app, BookNoteTemplate.normalizeFolderPath(folderPath))) {
+    const book = bookFromNote(app, file);
+    if (!book) continue;
+
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+    const yearMatch = book.publishDate.match(/\d{4}/);
+
+    entries.push({
+      file,
+      book,
+      reading: readReadingStatus(frontmatter),
+      pages: readTotalPages(frontmatter),
+      tags: readTags(frontmatter?.tags),
+      kdcClass: getKDCMainClass(book.kdc),
+      year: yearMatch ? yearMatch[0] : '',
+      created: frontmatter?.created ? String(frontmatter.created) : undefined,
+      cover: covers ? await resolveCover(app, file, book) : null
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * 노트 폴더 안의 마크다운 파일 경로인지 (폴더 설정은 정규화해 비교, 비어 있으면 볼트 전체)
+ */
+export function isInNoteFolder(path: string, folderPath: string): boolean {
+  const folder = BookNoteTemplate.normalizeFolderPath(folderPath);
+  return path.endsWith('.md') && (!folder || path.startsWith(`${folder}/`));
+}
+
+/**
+ * 필터 적용 - 검색어는 제목/저자/출판사에서 찾음
+ */
+export function filterLibraryEntries(entries: LibraryEntry[], filter: LibraryFilter): LibraryEntry[] {
+  const query = (filter.query || '').trim().toLowerCase();
+
+  return entries.filter(entry => {
+    if (query && ![entry.book.title, entry.book.author, entry.book.publisher].some(text => text.toLowerCase().includes(query))) return false;
+    if (filter.status && entry.reading.status !== filter.status) return false;
+    if (filter.author && entry.book.author !== filter.author) return false;
+    if (filter.publisher && entry.book.publisher !== filter.publisher) return false;
+    if (filter.kdcClass && entry.kdcClass !== filter.kdcClass) return false;
+    if (filter.year && entry.year !== filter.year) return false;
+    if (filter.tag && !entry.tags.includes(filter.tag)) return false;
+    return true;
+  });
+}
+
+/**
+ * 정렬 (값이 없는 항목은 순서와 관계없이 뒤로)
+ */
+export function sortLibraryEntries(entries: LibraryEntry[], key: LibrarySortKey, order: LibrarySortOrder): LibraryEntry[] {
+  const value = (entry: LibraryEntry): string | number | undefined => {
+    switch (key) {
+      case 'title': return entry.book.title;
+      case 'author': return entry.book.author || undefined;
+      case 'publisher': return entry.book.publisher || undefined;
+      case 'year': return entry.year || undefined;
+      case 'rating': return entry.reading.rating;
+      case 'endDate': return entry.reading.endDate;
+      case 'created': return entry.created;
+    }
+  };
+
+  const direction = order === 'asc' ? 1 : -1;
+  return [...entries].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left === undefined && right === undefined) return 0;
+    if (left === undefined) return 1;
+    if (right === undefined) return -1;
+    if (typeof left === 'number' && typeof right === 'number') return (left - right) * direction;
+    return String(left).localeCompare(String(right), 'ko') * direction;
+  });
+}
+
+/**
+ * 필터 선택지용 고유값 목록 (가나다순)
+ */
+export function uniqueValues(entries: LibraryEntry[], pick: (entry: LibraryEntry) => string | string[] | null | undefined): string[] {
+  const values = new Set<string>();
+  entries.forEach(entry => {
+    const picked = pick(entry);
+    (Array.isArray(picked) ? picked : [picked]).forEach(value => {
+      if (value) values.add(value);
+    });
+  });
+  return [...values].sort((a, b) => a.localeCompare(b, 'ko'));
+}
+
+function readTags(tags: unknown): string[] {
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(/[,\s]+/) : [];
+  return list.map(tag => String(tag).replace(/^#/, '').trim()).filter(Boolean);
+}
+
+/**
+ * 표지 찾기 - 볼트 이미지 임베드 우선, 없으면 본문의 원격 표지 주소
+ */
+async function resolveCover(app: App, file: TFile, book: Book): Promise<string | null> {
+  const embeds = app.metadataCache.getFileCache(file)?.embeds || [];
+  for (const embed of embeds) {
+    if (!COVER_EXTENSIONS.test(embed.link)) continue;
+    const target = app.metadataCache.getFirstLinkpathDest(embed.link, file.path);
+    if (target) return app.vault.getResourcePath(target);
+  }
+
+  if (book.coverImage) return book.coverImage;
+  return extractCoverImage(await app.vault.cachedRead(file));
+}
@@ -0,0 +1,159 @@
+/**
+ * 도서 노트 메타데이터 비교 유틸리티 - 기존 노트와 새로 가져온 정보의 차이 계산/적용
+ */
+
+export interface NoteChange {
+  kind: 'frontmatter' | 'section' | 'cover';
+  key: string;
+  label: string;
+  oldValue: string;
+  newValue: string;
+  // 프론트매터 항목이면 실제로 기록할 값 (문자열 외 배열/숫자 포함), 볼트 표지 항목이면 표지를 내려받을 도서
+  value?: any;
+}
+
+// 기본 템플릿의 목차 섹션 제목
+export const TOC_SECTION_HEADING = '## 📑 목차';
+
+// 목차를 찾지 못했을 때 목차 섹션에 넣는 안내 문구의 시작
+export const TOC_PLACEHOLDER_PREFIX = '> 목차 정보를 가져오지 못했습니다.';
+
+// 기본 템플릿의 표지 이미지 임베드 (![표지|150](url))
+const COVER_IMAGE_PATTERN = /!\[표지([^\]]*)\]\(([^)]*)\)/;
+
+// 볼트에 저장한 표지 임베드 (![[Books/covers/ISBN.jpg|150]]) - 본문의 첫 이미지 임베드
+const LOCAL_COVER_PATTERN = /!\[\[([^\]|]+\.(?:jpe?g|png|gif|webp|svg))(\|[^\]]*)?\]\]/i;
+
+const FRONTMATTER_LABELS: Record<string, string> = {
+  title: '제목',
+  author: '저자',
+  authors: '저자 목록',
+  translators: '역자',
+  publisher: '출판사',
+  publishDate: '출판일',
+  isbn: 'ISBN',
+  controlNo: 'CONTROL_NO',
+  pages: '페이지',
+  price: '가격',
+  category: '분류',
+  kdc: 'KDC',
+  ddc: 'DDC',
+  coverImage: '표지',
+  tocMethod: '목차 추출 방법',
+  tocConfidence: '목차 신뢰도'
+};
+
+/**
+ * 프론트매터 값을 비교/표시용 문자열로 변환
+ */
+export function formatFrontmatterValue(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * 프론트매터 변경 항목 계산 - 새 값이 비어 있거나 보존 키인 항목은 제외 (사용자가 채운 값을 지우지 않음)
+ */
+export function diffFrontmatter(
+  current: Record<string, any> | undefined,
+  fresh: Record<string, any>,
+  preservedKeys: string[]
+): NoteChange[] {
+  return Object.entries(fresh)
+    .filter(([key, value]) => !preservedKeys.includes(key) && formatFrontmatterValue(value) !== '')
+    .filter(([key, value]) => formatFrontmatterValue(current?.[key]) !== formatFrontmatterValue(value))
+    .map(([key, value]) => ({
+      kind: 'frontmatter' as const,
+      key,
+      label: FRONTMATTER_LABELS[key] || key,
+      oldValue: formatFrontmatterValue(current?.[key]),
+      newValue: formatFrontmatterValue(value),
+      value
+    }));
+}
+
+/**
+ * 노트 본문에서 제목 아래 섹션 내용 추출 (섹션이 없으면 null)
+ */
+export function extractNoteSection(content: string, heading: string): string | null {
+  const range = findSectionRange(content, heading);
+  return range ? content.slice(range.start, range.end).trim() : null;
+}
+
+/**
+ * 노트 본문의 섹션 내용을 교체 (섹션이 없으면 본문 끝에 추가)
+ */
+export function replaceNoteSection(content: string, heading: string, sectionBody: string): string {
+  const range = findSectionRange(content, heading);
+  if (!range) {
+    return `${content.trimEnd()}\n\n${heading}\n${sectionBody.trim()}\n`;
+  }
+
+  return `${content.slice(0, range.start)}${sectionBody.trim()}\n\n${content.slice(range.end).trimStart()}`.trimEnd() + '\n';
+}
+
+/**
+ * 노트 본문의 표지 이미지 주소 (표지 임베드가 없으면 null)
+ */
+export function extractCoverImage(content: string): string | null {
+  const match = content.match(COVER_IMAGE_PATTERN);
+  return match ? match[2] : null;
+}
+
+/**
+ * 노트 본문의 표지 이미지 주소 교체 (크기 지정 등 대체 텍스트는 유지)
+ */
+export function replaceCoverImage(content: string, url: string): string {
+  return content.replace(COVER_IMAGE_PATTERN, (match, alt) => `![표지${alt}](${url})`);
+}
+
+/**
+ * 노트 본문의 볼트 표지 경로 (볼트 이미지 임베드가 없으면 null)
+ */
+export function extractLocalCover(content: string): string | null {
+  const match = content.match(LOCAL_COVER_PATTERN);
+  return match ? match[1] : null;
+}
+
+/**
+ * 노트 본문의 볼트 표지 경로 교체 (크기 지정은 유지)
+ */
+export function replaceLocalCover(content: string, path: string): string {
+  return content.replace(LOCAL_COVER_PATTERN, (match, oldPath, size) => `![[${path}${size || ''}]]`);
+}
+
+/**
+ * 목차 섹션이 비어 있거나 목차를 찾지 못했다는 안내 문구뿐인지 (사용자가 고친 내용이 없는지)
+ */
+export function isTOCPlaceholder(section: string): boolean {
+  const text = section.trim();
+  return !text || text.startsWith(TOC_PLACEHOLDER_PREFIX);
+}
+
+/**
+ * 섹션 내용 범위 - 제목 다음 줄부터 같은 수준 이상의 다음 제목 전까지
+ */
+function findSectionRange(content: string, heading: string): { start: number; end: number } | null {
+  const lines = content.split('\n');
+  const headingIndex = lines.findIndex(line => line.trim() === heading);
+  if (headingIndex === -1) return null;
+
+  const level = (heading.match(/^#+/) || ['##'])[0].length;
+  const nextHeadingPattern = new RegExp(`^#{1,${level}}\\s`);
+
+  let endIndex = lines.length;
+  for (let i = headingIndex + 1; i < lines.length; i++) {
+    if (nextHeadingPattern.test(lines[i])) {
+      endIndex = i;
+      break;
+    }
+  }
+
+  const offsetOf = (index: number) => lines.slice(0, index).reduce((sum, line) => sum + line.length + 1, 0);
+  return {
+    start: offsetOf(headingIndex + 1),
+    end: Math.min(content.length, offsetOf(endIndex))
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * 노트 템플릿 파일 - 볼트 폴더의 마크다운 템플릿 목록과 도서별 자동 선택 규칙
+ */
+import { App, TFile } from 'obsidian';
+import { Book } from '../api/types';
+import { getNotesInFolder } from './book-notes';
+import { KDC_MAIN_CLASSES } from './kdc';
+
+export type TemplateRuleCondition = 'kdc' | 'ebook' | 'series';
+
+/**
+ * 템플릿 선택 규칙 - 위에서부터 처음 맞는 규칙의 템플릿 사용
+ */
+export interface TemplateRule {
+  condition: TemplateRuleCondition;
+  value: string; // KDC 규칙의 분류 기호 앞자리 (예: 8, 81)
+  template: string; // 템플릿 파일 경로
+}
+
+export const TEMPLATE_RULE_LABELS: Record<TemplateRuleCondition, string> = {
+  kdc: 'KDC 분류',
+  ebook: '전자책',
+  series: '시리즈 도서'
+};
+
+// 노트 프론트매터에 사용한 템플릿 파일 경로를 기록하는 키
+export const TEMPLATE_FRONTMATTER_KEY = 'template';
+
+/**
+ * 템플릿 폴더의 마크다운 파일 (이름순, 폴더를 정하지 않으면 빈 목록)
+ */
+export function listTemplateFiles(app: App, folderPath: string): TFile[] {
+  if (!folderPath) return [];
+  return getNotesInFolder(app, folderPath).sort((a, b) => a.basename.localeCompare(b.basename, 'ko'));
+}
+
+/**
+ * 도서에 맞는 첫 번째 규칙 (템플릿을 정하지 않은 규칙은 건너뜀)
+ */
+export function matchTemplateRule(rules: TemplateRule[], book: Book): TemplateRule | undefined {
+  return rules.find(rule => rule.template && matchesRule(rule, book));
+}
+
+function matchesRule(rule: TemplateRule, book: Book): boolean {
+  switch (rule.condition) {
+    case 'kdc': {
+      // 800처럼 끝의 0은 범위로 보고 앞자리만 비교 (000은 0)
+      const value = rule.value.trim();
+      const prefix = value.replace(/0+$/, '') || '0';
+      return !!value && (book.kdc || '').trim().startsWith(prefix);
+    }
+    case 'ebook':
+      return !!book.ebook;
+    case 'series':
+      return !!book.series;
+  }
+}
+
+/**
+ * 규칙 설명 - "KDC 800 문학", "전자책" 등
+ */
+export function describeTemplateRule(rule: TemplateRule): string {
+  if (rule.condition !== 'kdc') return TEMPLATE_RULE_LABELS[rule.condition];
+
+  const value = rule.value.trim();
+  const mainClass = value.length === 1 ? KDC_MAIN_CLASSES[value] : undefined;
+  return mainClass ? `KDC ${value}00 ${mainClass}` : `KDC ${value || '?'}`;
+}
+
+/**
+ * 템플릿 표시 이름 - 파일 경로에서 폴더와 확장자를 뗀 이름
+ */
+export function getTemplateName(path: string): string {
+  return path.split('/').pop()!.replace(/\.md$/, '');
+}
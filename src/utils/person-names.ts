@@ -0,0 +1,159 @@
+/**
+ * 저자 표기 분석 - "유발 하라리 지음 ; 조현욱 옮김" 같은 책임 표시를 역할별 인명으로 분리
+ */
+
+export interface PersonName {
+  family?: string;
+  given?: string;
+  // 성/이름으로 나누지 않고 그대로 써야 하는 이름 (한글로 음차한 외국 이름, 단체명 등)
+  literal?: string;
+  korean: boolean;
+}
+
+export interface Contributors {
+  authors: PersonName[];
+  editors: PersonName[];
+  translators: PersonName[];
+}
+
+type ContributorRole = keyof Contributors | 'other';
+
+// 책임 표시 역할어 (앞/뒤 어느 쪽에 붙어도 인식)
+const ROLE_WORDS: Record<ContributorRole, string[]> = {
+  authors: ['지은이', '글쓴이', '지음', '공저', '저자', '원작', '글', '저', '著', '씀', 'by'],
+  translators: ['옮긴이', '옮김', '공역', '번역', '역자', '역', '譯'],
+  editors: ['엮은이', '엮음', '편저', '편집', '편자', '편', '編', 'ed.', 'eds.'],
+  other: ['그린이', '그림', '감수', '해설', '사진']
+};
+
+// 역할이 여럿 붙은 책임 표시("글·그림")의 대표 역할 순서
+const ROLE_PRIORITY: ContributorRole[] = ['authors', 'editors', 'translators', 'other'];
+
+const ROLE_WORD_PATTERN = Object.values(ROLE_WORDS)
+  .flat()
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+
+// 역할어 하나 또는 "글·사진", "그림/글"처럼 이어 쓴 역할어
+const ROLE_MARKER = `(?:${ROLE_WORD_PATTERN})(?:\\s*[·・,/]\\s*(?:${ROLE_WORD_PATTERN}))*`;
+const ROLE_PREFIX = new RegExp(`^(${ROLE_MARKER})\\s*[:：]\\s*`, 'i');
+const ROLE_SUFFIX = new RegExp(`\\s+(${ROLE_MARKER})$`, 'i');
+
+// 성/이름으로 나누지 않는 단체명 ("편집부", "한국출판연구소", "Oxford University Press")
+const CORPORATE_NAME =
+  /(?:편집부|편집실|편집팀|위원회|연구소|연구원|연구회|학회|협회|재단|센터|출판부|기획실|모임)$|\b(?:inc|ltd|press|committee|institute|society|association)\.?$/i;
+
+// 두 글자 성 (복성)
+const COMPOUND_SURNAMES = ['남궁', '황보', '제갈', '선우', '독고', '사공', '서문', '동방', '어금', '망절'];
+
+const HANGUL = /[가-힣]/;
+
+/**
+ * 저자 필드를 역할별 인명 목록으로 분리 (역할어가 없으면 저자로 처리)
+ */
+export function parseContributors(authorField: string, translators: string[] = []): Contributors {
+  const result: Contributors = { authors: [], editors: [], translators: [] };
+
+  authorField
+    .split(/\s*;\s*/)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .forEach(segment => {
+      const { role, names } = splitRole(segment);
+      if (role === 'other') return;
+      result[role].push(...names.map(parsePersonName));
+    });
+
+  // 카카오에서 받은 역자 중 책임 표시에 없는 이름 추가
+  translators
+    .filter(name => !result.translators.some(person => formatPersonName(person) === name))
+    .forEach(name => result.translators.push(parsePersonName(name)));
+
+  return result;
+}
+
+/**
+ * 역할어가 붙은 책임 표시인지 ("한강 지음", "지은이: 홍길동", "유발 하라리 지음 ; 조현욱 옮김")
+ */
+export function hasContributorRoles(text: string): boolean {
+  return text
+    .split(/\s*;\s*/)
+    .some(segment => segment.trim() !== '' && matchRole(segment.trim()) !== null);
+}
+
+/**
+ * 인명 하나를 성/이름으로 분리
+ * - 붙여 쓴 한글 이름: 첫 글자(복성은 두 글자)가 성
+ * - 띄어 쓴 한글 이름: 음차한 외국 이름으로 보고 그대로 유지
+ * - 로마자 이름: 마지막 단어가 성 ("Collins, Suzanne" 형식도 인식)
+ * - 단체명: 그대로 유지
+ */
+export function parsePersonName(raw: string): PersonName {
+  const name = raw.trim();
+
+  if (CORPORATE_NAME.test(name)) {
+    return { literal: name, korean: HANGUL.test(name) };
+  }
+
+  if (HANGUL.test(name)) {
+    if (/\s/.test(name) || name.length < 2 || name.length > 4) {
+      return { literal: name, korean: true };
+    }
+    const familyLength = name.length >= 3 && COMPOUND_SURNAMES.includes(name.slice(0, 2)) ? 2 : 1;
+    return { family: name.slice(0, familyLength), given: name.slice(familyLength), korean: true };
+  }
+
+  if (name.includes(',')) {
+    const [family, given] = name.split(',').map(part => part.trim());
+    return { family, given, korean: false };
+  }
+
+  const parts = name.split(/\s+/);
+  if (parts.length === 1) {
+    return { literal: name, korean: false };
+  }
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' '), korean: false };
+}
+
+/**
+ * 원래 표기대로 이름 출력 (한글은 성+이름 붙여 쓰기, 로마자는 이름 성)
+ */
+export function formatPersonName(person: PersonName): string {
+  if (person.literal) return person.literal;
+  return person.korean ? `${person.family}${person.given}` : `${person.given} ${person.family}`;
+}
+
+/**
+ * 책임 표시 한 구간에서 역할과 이름 목록 분리 ("지은이: 홍길동, 김철수" / "홍길동·김철수 공저")
+ */
+function splitRole(segment: string): { role: ContributorRole; names: string[] } {
+  const matched = matchRole(segment);
+  const role: ContributorRole = matched ? matched.role : 'authors';
+  const text = matched ? matched.text : segment;
+
+  const names = text
+    .split(/\s*(?:,|·|\/|&|\band\b)\s*/)
+    .map(name => name.replace(/\s*(?:외|등)\s*(?:\d+인)?$/, '').trim())
+    .filter(name => name.length > 0);
+
+  return { role, names };
+}
+
+/**
+ * 구간 앞("지은이:")이나 뒤("지음", "글·그림")의 역할어 찾기 - 없으면 null
+ */
+function matchRole(segment: string): { role: ContributorRole; text: string } | null {
+  const match = segment.match(ROLE_PREFIX) || segment.match(ROLE_SUFFIX);
+  if (!match) return null;
+
+  const words = match[1].split(/\s*[·・,/]\s*/).map(word => word.toLowerCase());
+  const role = ROLE_PRIORITY.find(candidate =>
+    ROLE_WORDS[candidate].some(word => words.includes(word.toLowerCase()))
+  )!;
+  return { role, text: segment.replace(match[0], '').trim() };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,138 @@
+/**
+ * 독서 목표 - 완독한 도서 노트로 연간/월간 목표 달성도와 연속 달성 기록 계산
+ */
+import { LibraryEntry } from './library';
+import { getFinishedDate } from './reading-stats';
+
+export type GoalPeriod = 'year' | 'month';
+export type GoalUnit = 'books' | 'pages';
+
+export interface ReadingGoal {
+  target: number; // 0이면 목표 없음
+  unit: GoalUnit;
+}
+
+export interface GoalProgress {
+  period: GoalPeriod;
+  label: string; // "2024년", "2024년 3월"
+  unit: GoalUnit;
+  target: number;
+  current: number;
+  ratio: number; // 0-1
+  expected: number; // 오늘까지 목표 속도대로 읽었을 때의 양
+}
+
+export interface ReadingStreak {
+  current: number; // 이번 달(아직 못 채웠으면 지난달)까지 연속으로 목표를 채운 달 수
+  longest: number;
+}
+
+export const GOAL_UNIT_LABELS: Record<GoalUnit, string> = {
+  books: '권',
+  pages: '쪽'
+};
+
+/**
+ * 기간 안에 완독한 양 (권수 또는 쪽수)
+ */
+export function countFinished(entries: LibraryEntry[], unit: GoalUnit, year: number, month?: number): number {
+  return entries.reduce((sum, entry) => {
+    const finished = getFinishedDate(entry);
+    if (!finished || finished.year !== year || (month !== undefined && finished.month !== month)) return sum;
+    return sum + (unit === 'books' ? 1 : entry.pages || 0);
+  }, 0);
+}
+
+/**
+ * 목표 달성도 (today가 속한 연도/달 기준)
+ */
+export function computeGoalProgress(entries: LibraryEntry[], goal: ReadingGoal, period: GoalPeriod, today: Date): GoalProgress {
+  const year = today.getFullYear();
+  const month = today.getMonth() + 1;
+  const current = countFinished(entries, goal.unit, year, period === 'month' ? month : undefined);
+
+  // 기간 중 지난 비율 (오늘 포함)
+  const start = period === 'year' ? new Date(year, 0, 1) : new Date(year, month - 1, 1);
+  const end = period === 'year' ? new Date(year + 1, 0, 1) : new Date(year, month, 1);
+  const elapsed = (today.getTime() - start.getTime() + 24 * 60 * 60 * 1000) / (end.getTime() - start.getTime());
+
+  return {
+    period,
+    label: period === 'year' ? `${year}년` : `${year}년 ${month}월`,
+    unit: goal.unit,
+    target: goal.target,
+    current,
+    ratio: goal.target > 0 ? Math.min(1, current / goal.target) : 0,
+    expected: Math.round(goal.target * Math.min(1, elapsed))
+  };
+}
+
+/**
+ * 월간 목표를 연속으로 채운 달 수 (월간 목표가 없으면 한 권 이상 완독한 달)
+ */
+export function computeReadingStreak(entries: LibraryEntry[], monthlyGoal: ReadingGoal, today: Date): ReadingStreak {
+  const goal: ReadingGoal = monthlyGoal.target > 0 ? monthlyGoal : { target: 1, unit: 'books' };
+
+  // 달 키 = 연도 * 12 + (월 - 1)
+  const totals = new Map<number, number>();
+  entries.forEach(entry => {
+    const finished = getFinishedDate(entry);
+    if (!finished) return;
+    const key = finished.year * 12 + finished.month - 1;
+    totals.set(key, (totals.get(key) || 0) + (goal.unit === 'books' ? 1 : entry.pages || 0));
+  });
+  if (totals.size === 0) return { current: 0, longest: 0 };
+
+  const first = Math.min(...totals.keys());
+  const thisMonth = today.getFullYear() * 12 + today.getMonth();
+  const achieved = (key: number) => (totals.get(key) || 0) >= goal.target;
+
+  let longest = 0;
+  let run = 0;
+  for (let key = first; key <= thisMonth; key++) {
+    run = achieved(key) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  // 이번 달은 아직 진행 중이므로 못 채웠어도 지난달까지의 기록을 유지
+  let current = 0;
+  for (let key = achieved(thisMonth) ? thisMonth : thisMonth - 1; key >= first && achieved(key); key--) {
+    current++;
+  }
+
+  return { current, longest };
+}
+
+/**
+ * 상태 표시줄/요약용 문구 ("2024년 12 / 30권 (40%)")
+ */
+export function formatGoalProgress(progress: GoalProgress): string {
+  const unit = GOAL_UNIT_LABELS[progress.unit];
+  return `${progress.label} ${progress.current.toLocaleString()} / ${progress.target.toLocaleString()}${unit} (${Math.round(progress.ratio * 100)}%)`;
+}
+
+/**
+ * 목표 속도와 비교한 문구
+ */
+export function formatGoalPace(progress: GoalProgress): string {
+  const unit = GOAL_UNIT_LABELS[progress.unit];
+  if (progress.current >= progress.target) return '🎉 목표 달성';
+
+  const diff = progress.current - progress.expected;
+  if (diff >= 0) return `목표 속도보다 ${diff.toLocaleString()}${unit} 앞서 있습니다`;
+  return `목표 속도보다 ${(-diff).toLocaleString()}${unit} 뒤처져 있습니다`;
+}
+
+/**
+ * 목표 블록 옵션 ("period: year" 같은 줄) - 알 수 없는 값은 무시
+ */
+export function parseGoalBlockOptions(source: string): { periods: GoalPeriod[]; showStreak: boolean } {
+  const options: Record<string, string> = {};
+  source.split('\n').forEach(line => {
+    const match = line.match(/^\s*(\w+)\s*:\s*(.+?)\s*$/);
+    if (match) options[match[1].toLowerCase()] = match[2].toLowerCase();
+  });
+
+  const periods: GoalPeriod[] = options.period === 'year' ? ['year'] : options.period === 'month' ? ['month'] : ['year', 'month'];
+  return { periods, showStreak: options.streak !== 'false' && options.streak !== 'no' };
+}
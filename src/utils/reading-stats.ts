@@ -0,0 +1,177 @@
+/**
+ * 독서 통계 - 완독한 도서 노트의 완독일/쪽수/분류/평점으로 기간별 집계
+ */
+import { LibraryEntry } from './library';
+import { getKDCMainClassLabel } from './kdc';
+import { formatPersonName, parseContributors } from './person-names';
+
+export interface PeriodCount {
+  period: number; // 월(1-12) 또는 연도
+  books: number;
+  pages: number;
+}
+
+export interface CountItem {
+  label: string;
+  count: number;
+}
+
+export interface ReadingStats {
+  year: number | null; // null이면 전체 기간
+  finished: LibraryEntry[]; // 완독일순
+  books: number;
+  pages: number;
+  monthly: PeriodCount[]; // 연도를 정한 경우에만 1-12월
+  yearly: PeriodCount[];
+  kdcDistribution: CountItem[];
+  topAuthors: CountItem[];
+  topPublishers: CountItem[];
+  averageRating: number | null;
+  ratedBooks: number;
+}
+
+const TOP_COUNT = 10;
+
+/**
+ * 완독일의 연/월 ("2024-03-05", "2024.3.5" 등) - 완독이 아니거나 날짜가 없으면 null
+ */
+export function getFinishedDate(entry: LibraryEntry): { year: number; month: number } | null {
+  if (entry.reading.status !== '완독' || !entry.reading.endDate) return null;
+
+  const match = entry.reading.endDate.match(/^(\d{4})[-./](\d{1,2})/);
+  if (!match) return null;
+  const month = parseInt(match[2], 10);
+  return month >= 1 && month <= 12 ? { year: parseInt(match[1], 10), month } : null;
+}
+
+/**
+ * 완독 기록이 있는 연도 목록 (최근 연도부터)
+ */
+export function getFinishedYears(entries: LibraryEntry[]): number[] {
+  const years = new Set<number>();
+  entries.forEach(entry => {
+    const finished = getFinishedDate(entry);
+    if (finished) years.add(finished.year);
+  });
+  return [...years].sort((a, b) => b - a);
+}
+
+/**
+ * 기간별 독서 통계 계산 (year가 null이면 전체 기간)
+ */
+export function computeReadingStats(entries: LibraryEntry[], year: number | null): ReadingStats {
+  const allFinished = entries
+    .map(entry => ({ entry, date: getFinishedDate(entry) }))
+    .filter((item): item is { entry: LibraryEntry; date: { year: number; month: number } } => item.date !== null);
+  const inPeriod = allFinished
+    .filter(item => year === null || item.date.year === year)
+    .sort((a, b) => (a.entry.reading.endDate || '').localeCompare(b.entry.reading.endDate || ''));
+
+  const monthly: PeriodCount[] = year === null ? [] :
+    Array.from({ length: 12 }, (_, index) => ({ period: index + 1, books: 0, pages: 0 }));
+  const yearlyMap = new Map<number, PeriodCount>();
+
+  // 연도별 추이는 선택한 기간과 관계없이 전체 기록으로 계산
+  allFinished.forEach(({ entry, date }) => {
+    const yearly = yearlyMap.get(date.year) || { period: date.year, books: 0, pages: 0 };
+    yearly.books++;
+    yearly.pages += entry.pages || 0;
+    yearlyMap.set(date.year, yearly);
+  });
+  if (year !== null) {
+    inPeriod.forEach(({ entry, date }) => {
+      monthly[date.month - 1].books++;
+      monthly[date.month - 1].pages += entry.pages || 0;
+    });
+  }
+
+  const finished = inPeriod.map(item => item.entry);
+  const rated = finished.filter(entry => entry.reading.rating !== undefined);
+  const ratingSum = rated.reduce((sum, entry) => sum + (entry.reading.rating || 0), 0);
+
+  return {
+    year,
+    finished,
+    books: finished.length,
+    pages: finished.reduce((sum, entry) => sum + (entry.pages || 0), 0),
+    monthly,
+    yearly: [...yearlyMap.values()].sort((a, b) => a.period - b.period),
+    kdcDistribution: countBy(finished, entry => [getKDCMainClassLabel(entry.kdcClass || undefined)]),
+    topAuthors: countBy(finished, entry => parseContributors(entry.book.author).authors.map(formatPersonName)).slice(0, TOP_COUNT),
+    topPublishers: countBy(finished, entry => [entry.book.publisher]).slice(0, TOP_COUNT),
+    averageRating: rated.length > 0 ? Math.round((ratingSum / rated.length) * 100) / 100 : null,
+    ratedBooks: rated.length
+  };
+}
+
+/**
+ * 연간 독서 결산 노트 내용 (마크다운)
+ */
+export function renderYearlyReview(stats: ReadingStats, generatedAt: string): string {
+  const title = stats.year === null ? '전체 독서 결산' : `${stats.year}년 독서 결산`;
+  const lines: string[] = [
+    `# 📚 ${title}`,
+    '',
+    `- 완독: ${stats.books}권`,
+    `- 읽은 쪽수: ${stats.pages.toLocaleString()}쪽`,
+    `- 평균 평점: ${stats.averageRating !== null ? `⭐ ${stats.averageRating} (${stats.ratedBooks}권)` : '기록 없음'}`,
+    `- 작성일: ${generatedAt}`,
+    ''
+  ];
+
+  if (stats.monthly.length > 0) {
+    const maxBooks = Math.max(1, ...stats.monthly.map(month => month.books));
+    lines.push('## 📅 월별 완독', '', '| 월 | 권수 | 쪽수 | |', '| --- | ---: | ---: | --- |');
+    stats.monthly.forEach(month => {
+      lines.push(`| ${month.period}월 | ${month.books} | ${month.pages.toLocaleString()} | ${textBar(month.books, maxBooks)} |`);
+    });
+    lines.push('');
+  } else if (stats.yearly.length > 0) {
+    const maxBooks = Math.max(1, ...stats.yearly.map(year => year.books));
+    lines.push('## 📅 연도별 완독', '', '| 연도 | 권수 | 쪽수 | |', '| --- | ---: | ---: | --- |');
+    stats.yearly.forEach(year => {
+      lines.push(`| ${year.period} | ${year.books} | ${year.pages.toLocaleString()} | ${textBar(year.books, maxBooks)} |`);
+    });
+    lines.push('');
+  }
+
+  const countSection = (heading: string, items: CountItem[]) => {
+    if (items.length === 0) return;
+    lines.push(`## ${heading}`, '', ...items.map(item => `- ${item.label}: ${item.count}권`), '');
+  };
+  countSection('🗂️ 분류 (KDC)', stats.kdcDistribution);
+  countSection('✍️ 많이 읽은 저자', stats.topAuthors);
+  countSection('🏢 많이 읽은 출판사', stats.topPublishers);
+
+  lines.push('## 📖 완독한 도서', '');
+  if (stats.finished.length === 0) {
+    lines.push('- 없음');
+  } else {
+    stats.finished.forEach(entry => {
+      const rating = entry.reading.rating !== undefined ? ` ⭐ ${entry.reading.rating}` : '';
+      lines.push(`- ${entry.reading.endDate} [[${entry.file.path}|${entry.book.title}]] - ${entry.book.author}${rating}`);
+    });
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * 항목별 개수 (많은 순, 같으면 가나다순)
+ */
+function countBy(entries: LibraryEntry[], pick: (entry: LibraryEntry) => string[]): CountItem[] {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => {
+    new Set(pick(entry).map(label => label.trim()).filter(Boolean)).forEach(label => {
+      counts.set(label, (counts.get(label) || 0) + 1);
+    });
+  });
+  return [...counts.entries()]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label, 'ko'));
+}
+
+function textBar(value: number, max: number): string {
+  return '█'.repeat(Math.round((value / max) * 10));
+}
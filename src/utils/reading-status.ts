@@ -0,0 +1,97 @@
+/**
+ * 독서 상태 유틸리티 - 프론트매터의 상태/시작일/완독일/평점/진행도 갱신 규칙
+ */
+import { ReadingStatus, ReadingStatusValue } from '../api/types';
+
+export const READING_STATUSES: ReadingStatusValue[] = ['읽기 전', '읽는 중', '완독'];
+
+export const READING_STATUS_ICONS: Record<ReadingStatusValue, string> = {
+  '읽기 전': '📚',
+  '읽는 중': '📖',
+  '완독': '✅'
+};
+
+// 사용자가 관리하는 독서 기록 키 (메타데이터 새로고침에서 덮어쓰지 않음)
+export const READING_FRONTMATTER_KEYS = ['status', 'startDate', 'endDate', 'rating', 'progress'];
+
+export const MAX_RATING = 5;
+
+/**
+ * 프론트매터에서 독서 상태 읽기 (알 수 없는 상태는 읽기 전)
+ */
+export function readReadingStatus(frontmatter: Record<string, any> | undefined): ReadingStatus {
+  const status = READING_STATUSES.includes(frontmatter?.status) ? frontmatter!.status : '읽기 전';
+  const rating = parseFloat(frontmatter?.rating);
+  const progress = parseInt(frontmatter?.progress, 10);
+
+  return {
+    status,
+    startDate: frontmatter?.startDate ? String(frontmatter.startDate) : undefined,
+    endDate: frontmatter?.endDate ? String(frontmatter.endDate) : undefined,
+    rating: isNaN(rating) ? undefined : rating,
+    progress: isNaN(progress) ? undefined : progress
+  };
+}
+
+/**
+ * 프론트매터의 전체 쪽수 ("636 p." 같은 형태 포함)
+ */
+export function readTotalPages(frontmatter: Record<string, any> | undefined): number | undefined {
+  const pages = parseInt(String(frontmatter?.pages ?? '').replace(/[^\d]/g, ''), 10);
+  return pages > 0 ? pages : undefined;
+}
+
+/**
+ * 상태 변경 - 읽는 중이면 시작일, 완독이면 완독일과 진행도(전체 쪽수)를 채움
+ */
+export function applyReadingStatus(frontmatter: Record<string, any>, status: ReadingStatusValue, today: string): void {
+  frontmatter.status = status;
+
+  if (status === '읽는 중' && !frontmatter.startDate) {
+    frontmatter.startDate = today;
+  }
+  if (status === '완독') {
+    if (!frontmatter.startDate) frontmatter.startDate = today;
+    if (!frontmatter.endDate) frontmatter.endDate = today;
+
+    const pages = readTotalPages(frontmatter);
+    if (pages) frontmatter.progress = pages;
+  }
+}
+
+/**
+ * 읽은 쪽수 기록 - 처음 기록하면 읽는 중으로, 마지막 쪽에 도달하면 완독으로 상태 변경
+ */
+export function applyReadingProgress(frontmatter: Record<string, any>, page: number, today: string): ReadingStatusValue {
+  const pages = readTotalPages(frontmatter);
+  frontmatter.progress = pages ? Math.min(page, pages) : page;
+
+  const { status } = readReadingStatus(frontmatter);
+  if (pages && page >= pages) {
+    applyReadingStatus(frontmatter, '완독', today);
+  } else if (status === '읽기 전' && page > 0) {
+    applyReadingStatus(frontmatter, '읽는 중', today);
+  }
+  return frontmatter.status;
+}
+
+/**
+ * 평점 기록 (0.5 단위, 0이면 평점 삭제)
+ */
+export function applyRating(frontmatter: Record<string, any>, rating: number): void {
+  const rounded = Math.round(Math.max(0, Math.min(MAX_RATING, rating)) * 2) / 2;
+  if (rounded === 0) {
+    delete frontmatter.rating;
+  } else {
+    frontmatter.rating = rounded;
+  }
+}
+
+/**
+ * 진행률 표시 ("123 / 456쪽 (27%)")
+ */
+export function formatProgress(progress: number | undefined, pages: number | undefined): string {
+  if (progress === undefined) return '기록 없음';
+  if (!pages) return `${progress}쪽`;
+  return `${progress} / ${pages}쪽 (${Math.round((progress / pages) * 100)}%)`;
+}
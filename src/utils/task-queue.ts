@@ -0,0 +1,76 @@
+/**
+ * 요청 간격을 두고 작업을 하나씩 실행하는 큐 (일시정지/재개/취소 지원)
+ */
+export interface TaskQueueOptions {
+  // 작업 사이 대기 시간 (API 호출 제한 대응)
+  intervalMs: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export class TaskQueue<T> {
+  private paused = false;
+  private cancelled = false;
+  private resumeWaiter: (() => void) | null = null;
+
+  constructor(
+    private items: T[],
+    private handler: (item: T, index: number) => Promise<void>,
+    private options: TaskQueueOptions
+  ) {}
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * 모든 작업 실행 - 작업 오류는 handler에서 처리하고, 취소되면 남은 작업을 건너뜀
+   */
+  async run(): Promise<void> {
+    for (let index = 0; index < this.items.length; index++) {
+      await this.waitWhilePaused();
+      if (this.cancelled) break;
+
+      await this.handler(this.items[index], index);
+      this.options.onProgress?.(index + 1, this.items.length);
+
+      if (index < this.items.length - 1 && !this.cancelled) {
+        await new Promise(resolve => setTimeout(resolve, this.options.intervalMs));
+      }
+    }
+  }
+
+  /**
+   * 현재 작업이 끝난 뒤 멈춤
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.wake();
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    this.wake();
+  }
+
+  private waitWhilePaused(): Promise<void> {
+    if (!this.paused || this.cancelled) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.resumeWaiter = resolve;
+    });
+  }
+
+  private wake(): void {
+    this.resumeWaiter?.();
+    this.resumeWaiter = null;
+  }
+}
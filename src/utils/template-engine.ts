@@ -0,0 +1,388 @@
+/**
+ * 템플릿 엔진 - {{변수 | 필터}}와 {{#if}}/{{else}}/{{#unless}}/{{#each}} 블록을 토큰화·파싱해 렌더링
+ */
+
+export type TemplateFilter = (value: unknown, ...args: string[]) => unknown;
+
+/**
+ * 변수 태그가 놓인 줄 - 태그 앞뒤의 원본 텍스트 (다른 태그 포함)
+ */
+export interface VariableContext {
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface RenderOptions {
+  /** 변수 출력 변환 (기본은 stringifyValue) - 프론트매터의 YAML 이스케이프 등 */
+  escape?: (value: unknown, context: VariableContext) => string;
+}
+
+/**
+ * 템플릿 문법 오류 (행 번호는 1부터)
+ */
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(`템플릿 오류 (${line}행): ${message}`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+interface Expression {
+  path: string;
+  filters: FilterCall[];
+  line: number;
+}
+
+type BlockKind = 'if' | 'unless' | 'each';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; expression: Expression; context: VariableContext }
+  | { type: 'block'; kind: BlockKind; expression: Expression; body: TemplateNode[]; alternate: TemplateNode[] };
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; content: string; line: number; before: string; after: string };
+
+interface Scope {
+  data: unknown;
+  locals: Record<string, unknown>;
+  parent?: Scope;
+}
+
+const BLOCK_KINDS: BlockKind[] = ['if', 'unless', 'each'];
+
+/**
+ * 기본 필터 - 배열은 항목마다 적용
+ */
+export const DEFAULT_FILTERS: Record<string, TemplateFilter> = {
+  upper: value => mapValue(value, text => text.toUpperCase()),
+  lower: value => mapValue(value, text => text.toLowerCase()),
+  trim: value => mapValue(value, text => text.trim()),
+  join: (value, separator = ', ') => Array.isArray(value) ? value.map(stringifyValue).join(separator) : value,
+  default: (value, fallback = '') => isTruthy(value) ? value : fallback,
+  truncate: (value, length = '50') => {
+    const text = stringifyValue(value);
+    const limit = parseInt(length, 10);
+    return limit > 0 && text.length > limit ? `${text.slice(0, limit)}…` : text;
+  },
+  first: value => Array.isArray(value) ? value[0] : value,
+  last: value => Array.isArray(value) ? value[value.length - 1] : value
+};
+
+/**
+ * 템플릿 렌더링 (문법 오류는 TemplateSyntaxError)
+ */
+export function renderTemplate(
+  source: string,
+  data: Record<string, unknown>,
+  filters: Record<string, TemplateFilter> = {},
+  options: RenderOptions = {}
+): string {
+  const allFilters = { ...DEFAULT_FILTERS, ...filters };
+  const nodes = parseTemplate(source, Object.keys(allFilters));
+  return renderNodes(nodes, { data, locals: {} }, { filters: allFilters, escape: options.escape });
+}
+
+/**
+ * 템플릿 문법 검사 - 오류가 없으면 null
+ */
+export function validateTemplate(source: string, filterNames: string[] = []): TemplateSyntaxError | null {
+  try {
+    parseTemplate(source, [...Object.keys(DEFAULT_FILTERS), ...filterNames]);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error;
+    throw error;
+  }
+}
+
+/**
+ * 조건 평가 - 빈 문자열, 빈 배열, 0, false, null은 거짓
+ */
+export function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return !!value;
+}
+
+/**
+ * 값을 출력 문자열로 변환 - 배열은 ", "로 연결, 객체는 출력하지 않음
+ */
+export function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringifyValue).filter(Boolean).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+function mapValue(value: unknown, transform: (text: string) => string): unknown {
+  return Array.isArray(value) ? value.map(item => transform(stringifyValue(item))) : transform(stringifyValue(value));
+}
+
+/**
+ * 1단계 - 텍스트와 {{ }} 태그로 분리
+ * 블록 태그만 있는 줄은 줄 전체를 지워 조건이 거짓일 때 빈 줄이 남지 않게 함
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const tagPattern = /{{\s*([\s\S]*?)\s*}}/g;
+  let lastIndex = 0;
+  let line = 1;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(source)) !== null) {
+    const text = source.slice(lastIndex, match.index);
+    const end = match.index + match[0].length;
+    if (text) tokens.push({ type: 'text', value: text });
+    line += countNewlines(text);
+
+    const lineStart = source.lastIndexOf('\n', match.index - 1) + 1;
+    const lineEnd = source.indexOf('\n', end);
+    tokens.push({
+      type: 'tag',
+      content: match[1],
+      line,
+      before: source.slice(lineStart, match.index),
+      after: source.slice(end, lineEnd === -1 ? source.length : lineEnd).replace(/\r$/, '')
+    });
+    line += countNewlines(match[0]);
+    lastIndex = end;
+  }
+  if (lastIndex < source.length) {
+    tokens.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  return stripStandaloneLines(tokens);
+}
+
+function stripStandaloneLines(tokens: Token[]): Token[] {
+  const standalone = tokens.map((token, index) => {
+    if (token.type !== 'tag' || !isBlockTag(token.content)) return false;
+
+    const prev = tokens[index - 1];
+    const next = tokens[index + 1];
+    const lineStart = index === 0 ||
+      (prev.type === 'text' && (prev.value.includes('\n') || index === 1) && /^[ \t]*$/.test(prev.value.slice(prev.value.lastIndexOf('\n') + 1)));
+    const lineEnd = index === tokens.length - 1 ||
+      (next.type === 'text' && /^[ \t]*(\r?\n|$)/.test(next.value));
+    return lineStart && lineEnd;
+  });
+
+  const result = tokens.map(token => ({ ...token }));
+  standalone.forEach((isStandalone, index) => {
+    if (!isStandalone) return;
+    const prev = result[index - 1];
+    const next = result[index + 1];
+    if (prev?.type === 'text') prev.value = prev.value.slice(0, prev.value.lastIndexOf('\n') + 1);
+    if (next?.type === 'text') next.value = next.value.replace(/^[ \t]*(\r?\n|$)/, '');
+  });
+
+  return result.filter(token => token.type !== 'text' || token.value !== '');
+}
+
+function isBlockTag(content: string): boolean {
+  return /^[#/]/.test(content) || /^else\b/.test(content);
+}
+
+function countNewlines(text: string): number {
+  return (text.match(/\n/g) || []).length;
+}
+
+/**
+ * 2단계 - 태그를 중첩 블록 트리로 파싱
+ */
+function parseTemplate(source: string, filterNames: string[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // chained: {{else if}}로 생긴 블록 (바깥 블록과 함께 닫힘)
+  const stack: { node: Extract<TemplateNode, { type: 'block' }>; line: number; inElse: boolean; chained: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.alternate : top.node.body;
+  };
+
+  for (const token of tokenize(source)) {
+    if (token.type === 'text') {
+      current().push({ type: 'text', value: token.value });
+      continue;
+    }
+
+    const { content, line, before, after } = token;
+    const open = content.match(/^#(\w+)\s*([\s\S]*)$/);
+    const close = content.match(/^\/(\w+)$/);
+    const elseTag = content.match(/^else(?:\s+if\s+([\s\S]+))?$/);
+
+    if (open) {
+      const kind = open[1] as BlockKind;
+      if (!BLOCK_KINDS.includes(kind)) {
+        throw new TemplateSyntaxError(`알 수 없는 블록 {{#${open[1]}}}`, line);
+      }
+      if (!open[2]) {
+        throw new TemplateSyntaxError(`{{#${kind}}}에 변수가 없습니다`, line);
+      }
+      const node = { type: 'block' as const, kind, expression: parseExpression(open[2], line, filterNames), body: [], alternate: [] };
+      current().push(node);
+      stack.push({ node, line, inElse: false, chained: false });
+    } else if (elseTag) {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateSyntaxError('{{else}}의 위치가 올바르지 않습니다', line);
+      }
+      top.inElse = true;
+      if (elseTag[1]) {
+        if (top.node.kind === 'each') {
+          throw new TemplateSyntaxError('{{#each}}에는 {{else if}}를 쓸 수 없습니다', line);
+        }
+        const node = { type: 'block' as const, kind: 'if' as const, expression: parseExpression(elseTag[1], line, filterNames), body: [], alternate: [] };
+        top.node.alternate.push(node);
+        stack.push({ node, line, inElse: false, chained: true });
+      }
+    } else if (close) {
+      let top = stack.pop();
+      while (top?.chained) top = stack.pop();
+      if (!top) {
+        throw new TemplateSyntaxError(`{{/${close[1]}}}에 맞는 여는 블록이 없습니다`, line);
+      }
+      if (top.node.kind !== close[1]) {
+        throw new TemplateSyntaxError(`${top.line}행의 {{#${top.node.kind}}}를 {{/${close[1]}}}로 닫았습니다`, line);
+      }
+    } else if (/^[#/]/.test(content)) {
+      throw new TemplateSyntaxError(`잘못된 태그 {{${content}}}`, line);
+    } else {
+      current().push({ type: 'variable', expression: parseExpression(content, line, filterNames), context: { line, before, after } });
+    }
+  }
+
+  const unclosed = stack.filter(entry => !entry.chained).pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`{{#${unclosed.node.kind}}}를 닫는 {{/${unclosed.node.kind}}}가 없습니다`, unclosed.line);
+  }
+  return root;
+}
+
+/**
+ * "path | filter:arg1:"arg 2" | filter2" 형태의 식 파싱
+ */
+function parseExpression(source: string, line: number, filterNames: string[]): Expression {
+  const [path, ...filterSources] = splitOutsideQuotes(source, '|').map(part => part.trim());
+  if (!path) {
+    throw new TemplateSyntaxError(`변수 이름이 없습니다: {{${source}}}`, line);
+  }
+
+  const filters = filterSources.map(filterSource => {
+    const [name, ...args] = splitOutsideQuotes(filterSource, ':').map(part => part.trim());
+    if (!filterNames.includes(name)) {
+      throw new TemplateSyntaxError(`알 수 없는 필터 "${name}"`, line);
+    }
+    return { name, args: args.map(unquote) };
+  });
+
+  return { path, filters, line };
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let currentPart = '';
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(currentPart);
+      currentPart = '';
+      continue;
+    }
+    currentPart += char;
+  }
+  parts.push(currentPart);
+  return parts;
+}
+
+function unquote(text: string): string {
+  const match = text.match(/^(["'])([\s\S]*)\1$/);
+  return match ? match[2] : text;
+}
+
+interface RenderState {
+  filters: Record<string, TemplateFilter>;
+  escape?: RenderOptions['escape'];
+}
+
+/**
+ * 3단계 - 트리를 데이터로 렌더링
+ */
+function renderNodes(nodes: TemplateNode[], scope: Scope, state: RenderState): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable': {
+        const value = evaluate(node.expression, scope, state.filters);
+        return state.escape ? state.escape(value, node.context) : stringifyValue(value);
+      }
+      case 'block':
+        return renderBlock(node, scope, state);
+    }
+  }).join('');
+}
+
+function renderBlock(node: Extract<TemplateNode, { type: 'block' }>, scope: Scope, state: RenderState): string {
+  const value = evaluate(node.expression, scope, state.filters);
+
+  if (node.kind === 'if' || node.kind === 'unless') {
+    const condition = node.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+    return renderNodes(condition ? node.body : node.alternate, scope, state);
+  }
+
+  const items = Array.isArray(value) ? value : isTruthy(value) ? [value] : [];
+  if (items.length === 0) {
+    return renderNodes(node.alternate, scope, state);
+  }
+  return items.map((item, index) => renderNodes(node.body, {
+    data: item,
+    locals: { '@index': index, '@number': index + 1, '@first': index === 0, '@last': index === items.length - 1 },
+    parent: scope
+  }, state)).join('');
+}
+
+function evaluate(expression: Expression, scope: Scope, filters: Record<string, TemplateFilter>): unknown {
+  return expression.filters.reduce(
+    (value, filter) => filters[filter.name](value, ...filter.args),
+    lookup(expression.path, scope)
+  );
+}
+
+/**
+ * 변수 찾기 - this/@index는 현재 범위, 이름은 안쪽 범위부터 바깥으로, 점으로 하위 속성 접근
+ */
+function lookup(path: string, scope: Scope): unknown {
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+
+  if (head === 'this') {
+    value = scope.data;
+  } else if (head.startsWith('@')) {
+    value = scope.locals[head];
+  } else {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      if (current.data && typeof current.data === 'object' && head in (current.data as object)) {
+        value = (current.data as Record<string, unknown>)[head];
+        break;
+      }
+    }
+  }
+
+  return rest.reduce<unknown>((object, key) =>
+    object && typeof object === 'object' ? (object as Record<string, unknown>)[key] : undefined, value);
+}
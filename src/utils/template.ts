@@ -1,20 +1,46 @@
+import { parseYaml } from 'obsidian';
 import { Book } from '../api/types';
+import { renderTableOfContents } from './toc-renderer';
+import { CITATION_STYLE_LABELS, CitationStyle, formatCitation } from './citation';
+import { flattenTOCEntries } from './toc-parser';
+import { formatPersonName, hasContributorRoles, parseContributors } from './person-names';
+import { TemplateFilter, VariableContext, renderTemplate, stringifyValue, validateTemplate } from './template-engine';
+import { escapeYamlValue, splitFrontmatter } from './yaml';
 
 export class BookNoteTemplate {
   /**
-   * 템플릿 변수를 실제 값으로 치환
+   * 템플릿 변수를 실제 값으로 치환 (문법 오류는 TemplateSyntaxError)
+   * 프론트매터 안의 변수는 YAML에 맞게 이스케이프하고 배열은 YAML 목록으로 출력
    */
   static render(template: string, book: Book): string {
-    // Handlebars 스타일의 조건문 처리
-    let rendered = template;
-    
-    // if-else 조건문 처리
-    rendered = this.processConditionals(rendered, book);
-    
-    // 기본 변수 치환
-    const variables: Record<string, any> = {
+    const frontmatter = splitFrontmatter(template);
+    const escape = frontmatter
+      ? (value: unknown, context: VariableContext) =>
+        context.line < frontmatter.endLine ? escapeYamlValue(value, context) : stringifyValue(value)
+      : undefined;
+
+    return renderTemplate(template, this.buildContext(book), this.filters(), { escape });
+  }
+
+  /**
+   * 템플릿 문법 검사 - 오류 메시지, 오류가 없으면 null
+   */
+  static validate(template: string): string | null {
+    const error = validateTemplate(template, Object.keys(this.filters()));
+    return error ? error.message : null;
+  }
+
+  /**
+   * 템플릿에서 쓸 수 있는 변수 - 문자열, 조건용 불리언, {{#each}}용 목록
+   */
+  private static buildContext(book: Book): Record<string, unknown> {
+    const contributors = parseContributors(book.author || '', book.translators);
+    const tocEntries = book.tableOfContentsTree ? flattenTOCEntries(book.tableOfContentsTree.entries) : [];
+
+    const context: Record<string, unknown> = {
       title: book.title || '',
       author: book.author || '',
+      authors: contributors.authors.map(formatPersonName),
       publisher: book.publisher || '',
       publishDate: book.publishDate || '',
       isbn: book.isbn || '',
@@ -27,10 +53,40 @@ export class BookNoteTemplate {
       series: book.series || '',
       volume: book.volume || '',
       edition: book.edition || '',
+      eaAddCode: book.eaAddCode || '',
+      form: book.form || '',
+      cip: book.cip ? 'Y' : 'N',
+      size: book.size || '',
+      controlNo: book.controlNo || '',
+      tocUrl: book.tocUrl || '',
+      introductionUrl: book.introductionUrl || '',
+      summaryUrl: book.summaryUrl || '',
       summary: book.summary || '',
+      tableOfContents: book.tableOfContents || '',
+      tocList: book.tableOfContentsTree ? renderTableOfContents(book.tableOfContentsTree, 'list') : '',
+      tocHeadings: book.tableOfContentsTree ? renderTableOfContents(book.tableOfContentsTree, 'headings') : '',
+      tocChecklist: book.tableOfContentsTree ? renderTableOfContents(book.tableOfContentsTree, 'checklist') : '',
+      tocTable: book.tableOfContentsTree ? renderTableOfContents(book.tableOfContentsTree, 'table') : '',
+      toc: tocEntries.map(entry => ({
+        title: entry.title,
+        numbering: entry.numbering || '',
+        label: entry.numbering ? `${entry.numbering} ${entry.title}` : entry.title,
+        page: entry.page ?? '',
+        level: entry.level,
+        kind: entry.kind,
+        indent: '  '.repeat(entry.level)
+      })),
       detailLink: this.generateDetailLink(book),
       coverImage: book.coverImage || '',
-      ebook: book.ebook,
+      localCover: book.localCover || '',
+      coverEmbed: this.coverEmbed(book),
+      translators: contributors.translators.map(formatPersonName),
+      kakaoUrl: book.kakaoUrl || '',
+      kakaoThumbnail: book.kakaoThumbnail || '',
+      kakaoContents: book.kakaoContents || '',
+      kakaoPrice: book.kakaoPrice ? this.formatPrice(String(book.kakaoPrice)) : '',
+      kakaoSalePrice: book.kakaoSalePrice ? this.formatPrice(String(book.kakaoSalePrice)) : '',
+      ebook: !!book.ebook,
       date: window.moment().format('YYYY-MM-DD'),
       datetime: window.moment().format('YYYY-MM-DD HH:mm:ss'),
       year: window.moment().format('YYYY'),
@@ -38,45 +94,77 @@ export class BookNoteTemplate {
       day: window.moment().format('DD')
     };
 
-    // 변수 치환
-    Object.entries(variables).forEach(([key, value]) => {
-      const regex = new RegExp(`{{${key}}}`, 'g');
-      rendered = rendered.replace(regex, value.toString());
+    // 인용 변수 ({{citation:apa}}, {{citation:korean}} 등)
+    (Object.keys(CITATION_STYLE_LABELS) as CitationStyle[]).forEach(style => {
+      context[`citation:${style}`] = formatCitation(book, style);
     });
 
-    // 빈 변수 정리
-    rendered = rendered.replace(/{{[^}]+}}/g, '');
-    
-    return rendered;
+    return context;
   }
 
   /**
-   * 조건문 처리
+   * 도서 노트용 필터 (기본 필터 외)
+   * - date:"YYYY년 M월" - 날짜 형식 변경 (YYYYMMDD도 인식)
+   * - wikilink - [[값]], 배열은 항목마다, "한강 지음" 같은 책임 표시는 이름마다
    */
-  private static processConditionals(template: string, book: Book): string {
-    let result = template;
-
-    // {{#if variable}}...{{/if}} 처리
-    const ifRegex = /{{#if\s+(\w+)}}([\s\S]*?){{\/if}}/g;
-    result = result.replace(ifRegex, (match, variable, content) => {
-      const value = (book as any)[variable];
-      if (value && value !== '') {
-        return content;
-      }
-      return '';
-    });
+  private static filters(): Record<string, TemplateFilter> {
+    return {
+      date: (value, format = 'YYYY-MM-DD') => this.formatDate(stringifyValue(value), format),
+      wikilink: value => {
+        const toLink = (name: string) => `[[${name.replace(/[[\]|#^]/g, '').trim()}]]`;
+        if (Array.isArray(value)) {
+          return value.map(stringifyValue).filter(Boolean).map(toLink);
+        }
+        const text = stringifyValue(value).trim();
+        if (!text) return '';
+        if (!hasContributorRoles(text)) return toLink(text);
 
-    // {{#if variable}}...{{else}}...{{/if}} 처리
-    const ifElseRegex = /{{#if\s+(\w+)}}([\s\S]*?){{else}}([\s\S]*?){{\/if}}/g;
-    result = result.replace(ifElseRegex, (match, variable, ifContent, elseContent) => {
-      const value = (book as any)[variable];
-      if (value && value !== '') {
-        return ifContent;
+        const { authors, editors, translators } = parseContributors(text);
+        return [...authors, ...editors, ...translators].map(formatPersonName).map(toLink);
       }
-      return elseContent;
-    });
+    };
+  }
+
+  /**
+   * 표지 임베드 - 볼트에 저장한 표지는 ![[...]], 원격 표지는 ![표지](url), 표지가 없으면 빈 문자열
+   */
+  static coverEmbed(book: Book): string {
+    if (book.localCover) return `![[${book.localCover}|150]]`;
+    if (book.coverImage) return `![표지|150](${book.coverImage})`;
+    return '';
+  }
+
+  /**
+   * 템플릿을 렌더링해 프론트매터만 객체로 변환 (프론트매터가 없거나 YAML 오류면 빈 객체)
+   */
+  static renderFrontmatter(template: string, book: Book): Record<string, any> {
+    if (!splitFrontmatter(template)) return {};
 
-    return result;
+    try {
+      const frontmatter = splitFrontmatter(this.render(template, book));
+      return frontmatter ? parseYaml(frontmatter.yaml) || {} : {};
+    } catch (error) {
+      console.warn('⚠️ [Template] Frontmatter YAML parse failed:', error);
+      return {};
+    }
+  }
+
+  /**
+   * 렌더링한 노트의 프론트매터가 올바른 YAML인지 검사 - 오류 메시지, 문제가 없으면 null
+   */
+  static validateFrontmatter(content: string): string | null {
+    const frontmatter = splitFrontmatter(content);
+    if (!frontmatter) return null;
+
+    try {
+      const data = parseYaml(frontmatter.yaml);
+      if (data !== null && (typeof data !== 'object' || Array.isArray(data))) {
+        return '프론트매터 YAML 오류: "키: 값" 형식이 아닙니다';
+      }
+      return null;
+    } catch (error) {
+      return `프론트매터 YAML 오류: ${error.message}`;
+    }
   }
 
   /**
@@ -0,0 +1,152 @@
+import { TableOfContents, TOCEntry } from '../api/types';
+
+/**
+ * 번호 표기 규칙 - rank가 작을수록 상위 계층 (0: 부, 1: 장, 2 이상: 절)
+ * 첫 번째 그룹은 계층 판단용 번호, 일치한 전체 표기는 원래 번호로 보존
+ */
+const NUMBERING_RULES: { pattern: RegExp; rank: (numbering: string) => number }[] = [
+  { pattern: /^(제\s*\d+\s*부)[.:]?\s*/, rank: () => 0 },
+  { pattern: /^(part\s+(?:[ivx]+|\d+))\b[.:]?\s*/i, rank: () => 0 },
+  { pattern: /^(\d+\s*부)[.:]?\s+/, rank: () => 0 },
+  { pattern: /^(제\s*\d+\s*장)[.:]?\s*/, rank: () => 1 },
+  { pattern: /^(\d+\s*장)[.:]?\s+/, rank: () => 1 },
+  { pattern: /^(chapter\s+\d+)\b[.:]?\s*/i, rank: () => 1 },
+  { pattern: /^(제\s*\d+\s*절)[.:]?\s*/, rank: () => 2 },
+  { pattern: /^(\d+(?:\.\d+)+)\.?\s+/, rank: numbering => numbering.split('.').length },
+  { pattern: /^(\d+)[.)]\s*/, rank: () => 1 },
+  { pattern: /^([IVX]+)\.\s*/, rank: () => 0 },
+  { pattern: /^([가-하])\.\s+/, rank: () => 2 }
+];
+
+// 번호 없이 최상위에 두는 앞뒤 부속 항목
+const FRONT_BACK_MATTER = /^(머리말|서문|프롤로그|들어가는\s*[글말]|시작하며|추천사|감사의\s*글|옮긴이의\s*말|역자\s*후기|에필로그|나가는\s*[글말]|맺음말|마치며|부록|참고문헌|주석|색인|찾아보기)/;
+
+// 제목 끝의 쪽수 - 점선(..., …, ··), 탭, 두 칸 이상 공백 같은 구분자나 쪽/p 표기가 있을 때만 인식
+// (구분자 없이 끝에 붙은 숫자는 "파이썬 101", "자본주의의 역사 (2)"처럼 제목의 일부일 수 있음)
+const PAGE_PATTERNS = [
+  /\s*(?:\.{2,}|…+|·{2,})\s*(?:p\.?\s*)?(\d{1,4})\s*(?:쪽|p)?\s*$/i,
+  /(?:\s*\t|\s{2,})\s*(?:p\.?\s*)?(\d{1,4})\s*(?:쪽|p)?\s*$/i,
+  /\s*\(\s*p\.?\s*(\d{1,4})\s*\)\s*$/i,
+  /\s*\(\s*(\d{1,4})\s*(?:쪽|p)\s*\)\s*$/i,
+  /\s+(\d{1,4})\s*(?:쪽|p)\s*$/i,
+  /\s+p\.\s*(\d{1,4})\s*$/i
+];
+
+interface ParsedLine {
+  numbering?: string;
+  rank?: number;
+  title: string;
+  page?: number;
+  matter: boolean;
+}
+
+/**
+ * 목차 한 줄을 번호/제목/쪽수로 분리
+ */
+export function parseTOCLine(line: string): ParsedLine {
+  let text = line.replace(/^[-*•·▶▷■□◆◇○●]\s*/, '').trim();
+
+  let page: number | undefined;
+  for (const pattern of PAGE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match && match.index !== undefined && match.index > 0) {
+      const rest = text.slice(0, match.index).trim();
+      // 번호만 남는 경우("Part 2", "3장 12")는 쪽수로 보지 않음
+      const numbered = matchNumbering(rest + ' ');
+      if (rest && (!numbered || numbered.title)) {
+        page = parseInt(match[1], 10);
+        text = rest;
+        break;
+      }
+    }
+  }
+
+  const numbered = matchNumbering(text);
+  if (numbered) {
+    return { ...numbered, page, matter: false };
+  }
+
+  return { title: text, page, matter: FRONT_BACK_MATTER.test(text) };
+}
+
+function matchNumbering(text: string): { numbering: string; rank: number; title: string } | null {
+  for (const rule of NUMBERING_RULES) {
+    const match = text.match(rule.pattern);
+    if (match) {
+      // 표시용 번호는 "1.", "1)", "제1장:"처럼 원래 표기 그대로, 계층은 숫자 부분으로 판단
+      const numbering = match[0].replace(/\s+/g, ' ').trim();
+      const rank = rule.rank(match[1].replace(/\s+/g, ' ').trim());
+      return { numbering, rank, title: text.slice(match[0].length).trim() };
+    }
+  }
+  return null;
+}
+
+/**
+ * 목차 텍스트를 계층 트리로 파싱 (원래 순서 유지)
+ *
+ * 번호가 있는 항목은 번호 체계로 부모를 정하고, 번호 없는 항목은 바로 앞 항목이
+ * 번호 있는 항목이면 그 하위로, 아니면 앞 항목과 같은 계층에 둔다.
+ */
+export function parseTableOfContents(raw: string): TableOfContents {
+  const root: TOCEntry[] = [];
+  const stack: { entry: TOCEntry; rank: number }[] = [];
+  let previous: { entry: TOCEntry; rank: number; parent: TOCEntry[]; numbered: boolean } | null = null;
+
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+
+    const parsed = parseTOCLine(line);
+    const entry: TOCEntry = {
+      kind: 'item',
+      level: 0,
+      numbering: parsed.numbering,
+      title: parsed.title,
+      page: parsed.page,
+      children: []
+    };
+
+    let parent: TOCEntry[];
+    let rank: number;
+
+    if (parsed.matter) {
+      stack.length = 0;
+      parent = root;
+      rank = -1;
+    } else if (parsed.rank !== undefined) {
+      rank = parsed.rank;
+      entry.kind = rank === 0 ? 'part' : rank === 1 ? 'chapter' : 'section';
+      while (stack.length > 0 && stack[stack.length - 1].rank >= rank) {
+        stack.pop();
+      }
+      parent = stack.length > 0 ? stack[stack.length - 1].entry.children : root;
+      stack.push({ entry, rank });
+    } else if (previous && previous.numbered) {
+      rank = previous.rank + 1;
+      parent = previous.entry.children;
+    } else {
+      rank = previous ? previous.rank : 1;
+      parent = previous ? previous.parent : root;
+    }
+
+    parent.push(entry);
+    previous = { entry, rank, parent, numbered: parsed.rank !== undefined };
+  }
+
+  assignLevels(root, 0);
+  return { entries: root, raw };
+}
+
+/**
+ * 목차 트리를 깊이 우선 순서로 펼침
+ */
+export function flattenTOCEntries(entries: TOCEntry[]): TOCEntry[] {
+  return entries.reduce<TOCEntry[]>((flat, entry) => flat.concat(entry, flattenTOCEntries(entry.children)), []);
+}
+
+function assignLevels(entries: TOCEntry[], level: number): void {
+  for (const entry of entries) {
+    entry.level = level;
+    assignLevels(entry.children, level + 1);
+  }
+}
@@ -0,0 +1,61 @@
+import { TableOfContents, TOCEntry } from '../api/types';
+import { flattenTOCEntries } from './toc-parser';
+
+export type TOCRenderStyle = 'list' | 'headings' | 'checklist' | 'table' | 'plain';
+
+export const TOC_RENDER_STYLE_LABELS: Record<TOCRenderStyle, string> = {
+  list: '중첩 목록',
+  headings: '마크다운 제목',
+  checklist: '읽기 체크리스트',
+  table: '쪽수 표',
+  plain: '원문 그대로'
+};
+
+// "## 📑 목차" 아래에 들어가므로 제목 스타일은 ### 부터 시작
+const HEADING_BASE_LEVEL = 3;
+
+/**
+ * 목차 트리를 지정한 스타일의 마크다운으로 변환
+ */
+export function renderTableOfContents(toc: TableOfContents, style: TOCRenderStyle): string {
+  switch (style) {
+    case 'headings':
+      return flattenTOCEntries(toc.entries)
+        .map(entry => `${'#'.repeat(Math.min(6, HEADING_BASE_LEVEL + entry.level))} ${entryLabel(entry)}${entry.page ? ` · p.${entry.page}` : ''}`)
+        .join('\n\n');
+    case 'checklist':
+      return flattenTOCEntries(toc.entries)
+        .map(entry => `${'  '.repeat(entry.level)}- [ ] ${entryLabel(entry)}${pageSuffix(entry)}`)
+        .join('\n');
+    case 'table':
+      return [
+        '| 구분 | 제목 | 쪽 |',
+        '|------|------|---:|',
+        ...flattenTOCEntries(toc.entries).map(entry =>
+          `| ${escapeCell(entry.numbering || '')} | ${'&emsp;'.repeat(entry.level)}${escapeCell(entry.title)} | ${entry.page ?? ''} |`
+        )
+      ].join('\n');
+    case 'plain':
+      return toc.raw;
+    case 'list':
+    default:
+      return flattenTOCEntries(toc.entries)
+        .map(entry => `${'  '.repeat(entry.level)}- ${entryLabel(entry)}${pageSuffix(entry)}`)
+        .join('\n');
+  }
+}
+
+/**
+ * 번호와 제목을 합친 표시용 이름
+ */
+function entryLabel(entry: TOCEntry): string {
+  return [entry.numbering, entry.title].filter(Boolean).join(' ');
+}
+
+function pageSuffix(entry: TOCEntry): string {
+  return entry.page ? ` (p.${entry.page})` : '';
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
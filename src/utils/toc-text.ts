@@ -0,0 +1,299 @@
+/**
+ * 목차 텍스트 처리 유틸리티 - 모든 목차 추출 전략이 공유하는 파싱/검증/신뢰도 계산
+ */
+
+// 목차가 아닌 콘텐츠 (검색 결과, 인기검색어, 책 소개 서술문 등)
+const INVALID_TOC_PATTERNS = [
+  // NLK 페이지 구성 요소
+  /검색\s*결과|도서\s*목록|관련\s*도서/,
+  /이전\s*페이지|다음\s*페이지|페이지\s*이동/,
+  /국립중앙도서관|저작권|copyright/i,
+  /자료실|소장처|청구기호/,
+  /인기검색어|검색질의어|검색건수/,
+  /베스트셀러|best.*seller/i,
+  /신간도서|추천도서/,
+
+  // 책 소개 서술문
+  /이 책은|이번 책에서|저자는|책에서는/,
+  /독자들에게|우리에게|여러분에게/,
+  /입니다\.|습니다\.|됩니다\.|했습니다\./,
+  /것이다\.|것입니다\.|것이며|한다\./,
+  /^[가-힣\s]{150,}$/,
+
+  // 단순 나열 (숫자+텍스트만)
+  /^\s*\d+\s*\|\s*[가-힣]{1,10}\s*$/,
+  /^[\d\s|\-=]+$/
+];
+
+// 목차임을 강하게 시사하는 패턴
+const STRONG_TOC_PATTERNS = [
+  /(?:제\s*)?\d+\s*[장부절편권화]/,
+  /chapter\s*\d+|part\s*\d+/i,
+  /\d+\.\s*[가-힣]/,
+  /\d+\)\s*[가-힣]/,
+  /^[IVX]+\.\s*[가-힣]/m,
+  /서문|머리말|들어가는\s*말|시작하며/,
+  /부록|참고문헌|찾아보기|색인/
+];
+
+// 목차 항목 줄로 인정하는 시작 패턴
+const TOC_LINE_PATTERNS = [
+  /^\d+[.\s-]/,
+  /^제\s*\d+[장절편부]/,
+  /^\d+장\s/,
+  /^[가-힣]\s*[.\s]/,
+  /^[IVX]+[.\s]/i,
+  /^(부록|참고문헌|색인|찾아보기)/,
+  /^(들어가는\s*글|나가는\s*글|머리말|맺음말|서문)/,
+  /=\s*\d+\s*$/,
+  /^[\d.]+\s+[가-힣]/
+];
+
+/**
+ * HTML 엔티티 디코딩 (숫자/16진수 엔티티 포함)
+ */
+export function decodeHTMLEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&#x([a-fA-F0-9]+);/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * HTML에서 텍스트만 추출
+ */
+export function extractTextFromHTML(html: string): string {
+  const text = html
+    .replace(/<script[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeHTMLEntities(text).trim();
+}
+
+/**
+ * HTML 조각을 목차 줄 목록으로 파싱 (목차 패턴에 맞는 줄만, 최대 50개)
+ */
+export function parseTableOfContentsText(htmlText: string): string {
+  if (!htmlText) return '';
+
+  const text = decodeHTMLEntities(
+    htmlText
+      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(?:tr|li|p|div|h[1-6])>/gi, '\n')
+      .replace(/<td[^>]*>/gi, ' | ')
+      .replace(/<[^>]*>/g, ' ')
+  );
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(line => {
+      if (line.length < 3 || line.length > 200) return false;
+      if (/^(목차|차례|contents|table|index)$/i.test(line)) return false;
+      if (/^(page|페이지|\d+\s*$)/.test(line)) return false;
+      return TOC_LINE_PATTERNS.some(pattern => pattern.test(line));
+    })
+    .slice(0, 50)
+    .join('\n');
+}
+
+/**
+ * 표/목록/단락 구조를 따라 HTML에서 목차 후보 텍스트 추출
+ */
+export function extractStructuredTOC(htmlContent: string): string {
+  const content = htmlContent
+    .replace(/<script[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '');
+
+  const collect = (pattern: RegExp): string[] => {
+    const matches = content.match(pattern) || [];
+    return matches
+      .map(fragment => extractTextFromHTML(fragment))
+      .filter(text => text.length > 0);
+  };
+
+  const cells = collect(/<(?:td|th)[^>]*>[\s\S]*?<\/(?:td|th)>/gi);
+  if (cells.length > 0) return cells.join('\n');
+
+  const listItems = collect(/<li[^>]*>[\s\S]*?<\/li>/gi);
+  if (listItems.length > 0) return listItems.join('\n');
+
+  const paragraphs = collect(/<p[^>]*>[\s\S]*?<\/p>/gi);
+  if (paragraphs.length > 0) return paragraphs.join('\n');
+
+  return extractTextFromHTML(content);
+}
+
+/**
+ * 목차 텍스트 정리 - 태그/엔티티 제거, 머리글·구분선 제거, 중복 제거 (원래 순서 유지)
+ */
+export function cleanTableOfContentsText(text: string): string {
+  const cleaned = decodeHTMLEntities(
+    text
+      .replace(/<script[\s\S]*?<\/script>/gi, '')
+      .replace(/<style[\s\S]*?<\/style>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(?:tr|li|p|div|h[1-6])>/gi, '\n')
+      .replace(/<td[^>]*>/gi, ' | ')
+      .replace(/<[^>]*>/g, ' ')
+  );
+
+  const lines = cleaned
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(line => {
+      if (line.length < 3 || line.length > 150) return false;
+      if (/^(목차|차례|contents|table)$/i.test(line)) return false;
+      if (/^(page|페이지|\d+\s*$)/.test(line)) return false;
+      if (/^[|\-=\s]+$/.test(line)) return false;
+      return true;
+    });
+
+  return [...new Set(lines)].join('\n').trim();
+}
+
+/**
+ * TXT 파일 내용에서 목차 구간 추출
+ */
+export function extractTOCFromTxtContent(txtContent: string): string {
+  if (!txtContent || txtContent.length < 10) return '';
+
+  const lines = txtContent.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+  // 목차 시작점 - "목차" 머리글 다음 줄, 없으면 첫 장 제목
+  let start = lines.findIndex(line => /^목차|^차례|^CONTENTS?$/i.test(line) || (/목차|차례/.test(line) && line.length < 20));
+  if (start !== -1) {
+    start++;
+  } else {
+    start = lines
+      .slice(0, 50)
+      .findIndex(line => /^(제\s*\d+[장절편부]|들어가는\s*글|나가는\s*글|\d+장\s|\d+[.\s-])/.test(line));
+  }
+  if (start === -1) return '';
+
+  // 목차 끝점 - 본문/후미 요소가 다시 나오거나 100줄을 넘으면 종료
+  const endMarkers = [
+    /^(서문|머리말|본문|chapter\s*1|제\s*1\s*절|제\s*1\s*항)/i,
+    /^(참고문헌|bibliography|색인|index|부록|appendix)/i
+  ];
+  let end = Math.min(lines.length, start + 50);
+  for (let i = start + 1; i < lines.length; i++) {
+    if (endMarkers.some(marker => marker.test(lines[i])) || i - start > 100) {
+      end = i;
+      break;
+    }
+  }
+
+  return lines
+    .slice(start, end)
+    .filter(line => line.length > 2 && line.length < 200)
+    .filter(line => !/^(page|페이지|\d+\s*$|출처|source)$/i.test(line))
+    .join('\n');
+}
+
+/**
+ * JSON 데이터에서 목차로 보이는 문자열 필드를 찾아 파싱
+ */
+export function extractTOCFromJSON(data: any): string | null {
+  const tocFields = [
+    'tableOfContents', 'toc', 'contents', 'outline', 'structure',
+    'summary', 'description', 'chapters', 'sections', 'index'
+  ];
+
+  const searchInObject = (obj: any, depth: number): string | null => {
+    if (depth > 5 || !obj || typeof obj !== 'object') return null;
+
+    for (const field of tocFields) {
+      if (typeof obj[field] === 'string') {
+        const toc = parseTableOfContentsText(obj[field]);
+        if (isValidTableOfContents(toc)) {
+          return toc;
+        }
+      }
+    }
+
+    for (const key of Object.keys(obj)) {
+      if (typeof obj[key] === 'object') {
+        const result = searchInObject(obj[key], depth + 1);
+        if (result) return result;
+      }
+    }
+
+    return null;
+  };
+
+  return searchInObject(data, 0);
+}
+
+/**
+ * 목차 유효성 검증 - 비목차 패턴이 없고, 3줄 이상이며, 목차 패턴이 충분해야 함
+ */
+export function isValidTableOfContents(text: string | null | undefined): boolean {
+  if (!text || text.length < 20 || text.length > 8000) {
+    return false;
+  }
+
+  const cleanText = text.trim();
+  if (INVALID_TOC_PATTERNS.some(pattern => pattern.test(cleanText))) {
+    return false;
+  }
+
+  const lines = cleanText.split(/\n+/).map(line => line.trim()).filter(line => line.length > 2);
+  if (lines.length < 3) {
+    return false;
+  }
+
+  const strongPatternCount = STRONG_TOC_PATTERNS.filter(pattern => pattern.test(cleanText)).length;
+  if (strongPatternCount >= 2) {
+    return true;
+  }
+
+  const totalLength = lines.reduce((sum, line) => sum + line.length, 0);
+  const avgLineLength = totalLength / lines.length;
+  const validLineRatio = lines.filter(line => line.length >= 5 && line.length <= 100).length / lines.length;
+
+  return strongPatternCount >= 1 &&
+    lines.length >= 5 &&
+    validLineRatio >= 0.7 &&
+    avgLineLength >= 10 &&
+    avgLineLength <= 60;
+}
+
+/**
+ * 목차 신뢰도 계산 (0.1-1) - 항목 수, 패턴 다양성, 줄 길이에 전략별 가중치를 더함
+ */
+export function calculateConfidence(toc: string, strategyWeight: number): number {
+  let confidence = 0.4;
+
+  const lines = toc.split('\n').filter(line => line.trim().length > 0);
+  if (lines.length === 0) return 0;
+
+  if (lines.length >= 15) confidence += 0.25;
+  else if (lines.length >= 8) confidence += 0.15;
+  else if (lines.length >= 5) confidence += 0.1;
+
+  const diversityPatterns = [
+    /^\d+[.\s-]/,
+    /^제\s*\d+[장절]/,
+    /^[가-힣]\s*[.\s]/,
+    /=\s*\d+\s*$/,
+    /들어가는\s*글|나가는\s*글/
+  ];
+  confidence += diversityPatterns.filter(pattern => lines.some(line => pattern.test(line))).length * 0.08;
+
+  confidence += strategyWeight;
+
+  const avgLineLength = lines.reduce((sum, line) => sum + line.trim().length, 0) / lines.length;
+  if (avgLineLength >= 15 && avgLineLength <= 40) confidence += 0.1;
+  if (toc.length > 500 && toc.length < 2000) confidence += 0.1;
+
+  return Math.max(0.1, Math.min(1, Math.round(confidence * 100) / 100));
+}
@@ -0,0 +1,111 @@
+/**
+ * 프론트매터 YAML 처리 - 프론트매터 분리와 템플릿 변수 값의 YAML 이스케이프
+ */
+
+import { VariableContext, stringifyValue } from './template-engine';
+
+export interface FrontmatterBlock {
+  /** --- 사이의 YAML 텍스트 */
+  yaml: string;
+  /** 닫는 ---의 행 번호 (1부터) */
+  endLine: number;
+}
+
+// 따옴표 없이 쓰면 다른 값으로 읽히는 문자열 (불리언, null)
+const YAML_RESERVED_WORDS = /^(?:true|false|yes|no|on|off|null|~)$/i;
+const YAML_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?$/;
+const YAML_DATE = /^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2})?)?$/;
+
+/**
+ * 문서 맨 앞의 프론트매터 찾기 (없으면 null)
+ */
+export function splitFrontmatter(text: string): FrontmatterBlock | null {
+  const match = text.match(/^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/);
+  if (!match) return null;
+
+  return { yaml: match[1] || '', endLine: match[0].replace(/\r?\n$/, '').split('\n').length };
+}
+
+/**
+ * 템플릿 변수 값을 태그가 놓인 자리에 맞게 YAML로 변환
+ * - "{{title}}", '{{title}}' - 따옴표 안에 맞게 이스케이프
+ * - key: {{authors}} - 값 전체이면 배열은 블록 목록, 문자열은 필요할 때만 따옴표
+ * - - {{authors}} - 목록 항목이면 배열은 [a, b] 흐름 목록
+ * - 그 밖의 위치 - 줄바꿈만 공백으로 바꿈
+ */
+export function escapeYamlValue(value: unknown, context: VariableContext): string {
+  const quote = openQuote(context.before);
+  if (quote === '"') {
+    return JSON.stringify(stringifyValue(value)).slice(1, -1);
+  }
+  if (quote === "'") {
+    return flattenLines(stringifyValue(value)).replace(/'/g, "''");
+  }
+
+  const wholeValue = /^[ \t]*(?:#.*)?$/.test(context.after);
+  const keyMatch = context.before.match(/^([ \t]*)(?:- +)?[^\s#'"-][^:]*:[ \t]*$/);
+  const itemMatch = context.before.match(/^[ \t]*- +$/);
+  if (!wholeValue || (!keyMatch && !itemMatch)) {
+    return flattenLines(stringifyValue(value));
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(stringifyValue).filter(Boolean);
+    if (items.length === 0) return '[]';
+    if (itemMatch) return `[${items.map(item => formatYamlScalar(item, true)).join(', ')}]`;
+
+    const indent = `${keyMatch![1]}  `;
+    return items.map(item => `\n${indent}- ${formatYamlScalar(item)}`).join('');
+  }
+
+  if (typeof value === 'boolean' || typeof value === 'number') {
+    return String(value);
+  }
+  return formatYamlScalar(stringifyValue(value));
+}
+
+/**
+ * 문자열 하나를 YAML 스칼라로 - 숫자, 날짜, 특수문자 없는 문자열은 그대로, 나머지는 큰따옴표
+ * (빈 문자열은 비워 두어 null로 읽힘)
+ */
+export function formatYamlScalar(text: string, flow = false): string {
+  if (!text) return '';
+  if (YAML_NUMBER.test(text) || YAML_DATE.test(text)) return text;
+  if (isPlainSafe(text, flow)) return text;
+  return JSON.stringify(text);
+}
+
+function isPlainSafe(text: string, flow: boolean): boolean {
+  if (text !== text.trim() || /[\r\n\t]/.test(text)) return false;
+  if (YAML_RESERVED_WORDS.test(text) || /^[\d.+-]/.test(text)) return false;
+  if (/^[-?:,[\]{}#&*!|>'"%@`]/.test(text)) return false;
+  if (/: |:$| #/.test(text)) return false;
+  return !flow || !/[,[\]{}]/.test(text);
+}
+
+function flattenLines(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ');
+}
+
+/**
+ * 태그 앞 텍스트에서 아직 닫히지 않은 따옴표 (다른 {{ }} 태그 안은 건너뜀)
+ * 값이 시작되는 자리(: - [ , { 뒤나 줄 처음)의 따옴표만 여는 따옴표로 봄
+ */
+function openQuote(before: string): '"' | "'" | null {
+  const text = before.replace(/{{[\s\S]*?}}/g, 'x');
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote === '"') {
+      if (char === '\\') i++;
+      else if (char === '"') quote = null;
+    } else if (quote === "'") {
+      if (char === "'") quote = null;
+    } else if (char === '"' || char === "'") {
+      const previous = text.slice(0, i).trimEnd();
+      if (!previous || /[:\-[,{]$/.test(previous)) quote = char;
+    }
+  }
+  return quote;
+}